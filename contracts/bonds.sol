@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./extension.sol";
+
+/// @notice ETH bonds that governors post as a guarantee of honest resolutions. After a governor resolves a GameEscrow
+///         game, its players have `challengeWindow` seconds to dispute it. An arbiter appointed by the escrow owner
+///         rules on disputes: a fraudulent resolution is slashed from the governor's bond (the game's `governor`, also
+///         for council games) and credited to the players it names, who withdraw it with `claim(address(0))`.
+///         Withdrawing a bond takes `challengeWindow` to unlock, and again `challengeWindow` after the governor's
+///         latest resolution, and waits for open disputes to be ruled on.
+///         Games created with a `minGovernorBond` only take stakes while {bondOf} their governor covers it, once the
+///         escrow owner points the escrow's `bondRegistry` here.
+/// @dev Council games are bonded through their `governor` alone: it is the one checked at creation and joins, and the
+///      one disputes and slashes reach. The other council members put no bond at stake.
+contract GovernorBonds is Payouts {
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views run in its extension
+    uint64 public immutable challengeWindow;    // seconds after a resolution to dispute it
+    address public arbiter;
+
+    struct Bond {
+        uint256 amount;             // slashable, including a pending withdrawal
+        uint256 pendingWithdrawal;  // part of `amount` requested out
+        uint64 withdrawableAt;      // when the pending withdrawal unlocks, 0 = none
+        uint32 openDisputes;        // disputes on this governor's games not yet ruled on
+        uint256 slashedTotal;
+    }
+
+    struct Slash {
+        uint256 gameId;
+        address governor;
+        uint256 amount;
+        uint64 timestamp;
+        string reason;
+    }
+
+    mapping(address => Bond) internal bonds;
+    mapping(uint256 => address) public disputedBy;   // gameId => player who opened the open dispute
+    mapping(uint256 => bool) public ruled;           // gameId => the arbiter ruled on it, no further disputes
+    Slash[] internal slashes;
+    mapping(address => uint256[]) internal governorSlashes; // governor => indexes into `slashes`
+
+    constructor(address _escrow, uint64 _challengeWindow) {
+        require(_challengeWindow > 0, "Invalid challenge window");
+        escrow = GameEscrowExtension(_escrow);
+        challengeWindow = _challengeWindow;
+    }
+
+    event BondPosted(address indexed governor, uint256 amount, uint256 total);
+    event WithdrawalRequested(address indexed governor, uint256 amount, uint64 withdrawableAt);
+    event BondWithdrawn(address indexed governor, uint256 amount);
+    event ArbiterSet(address arbiter);
+    event Disputed(uint256 indexed gameId, address indexed governor, address player);
+    event DisputeDismissed(uint256 indexed gameId, address indexed governor);
+    event Slashed(uint256 indexed gameId, address indexed governor, uint256 amount, string reason);
+
+    modifier onlyArbiter() {
+        require(msg.sender == arbiter, "Not arbiter");
+        _;
+    }
+
+    // --------------------------------------------------
+    // Bonds (governors)
+    // --------------------------------------------------
+
+    function postBond() external payable nonReentrant {
+        require(msg.value > 0, "Empty bond");
+        Bond storage b = bonds[msg.sender];
+        b.amount += msg.value;
+        emit BondPosted(msg.sender, msg.value, b.amount);
+    }
+
+    /// @notice Start unbonding `amount`. It stays slashable until withdrawn; a new request replaces the previous one
+    ///         and restarts the wait.
+    function requestWithdrawal(uint256 amount) external {
+        Bond storage b = bonds[msg.sender];
+        require(amount > 0 && amount <= b.amount, "Invalid amount");
+
+        b.pendingWithdrawal = amount;
+        b.withdrawableAt = uint64(block.timestamp) + challengeWindow;
+        emit WithdrawalRequested(msg.sender, amount, b.withdrawableAt);
+    }
+
+    function withdrawBond() external nonReentrant {
+        Bond storage b = bonds[msg.sender];
+        require(b.withdrawableAt != 0 && block.timestamp >= b.withdrawableAt, "Withdrawal locked");
+        // Games resolved during the wait stay disputable, and slashable, until their own window closes
+        require(block.timestamp >= escrow.lastResolvedAt(msg.sender) + challengeWindow, "Withdrawal locked");
+        require(b.openDisputes == 0, "Open disputes");
+
+        // Slashes during the wait may have eaten into the requested amount
+        uint256 amount = b.pendingWithdrawal < b.amount ? b.pendingWithdrawal : b.amount;
+        b.amount -= amount;
+        b.pendingWithdrawal = 0;
+        b.withdrawableAt = 0;
+
+        emit BondWithdrawn(msg.sender, amount);
+        _transferOut(address(0), msg.sender, amount);
+    }
+
+    // --------------------------------------------------
+    // Disputes (players) and rulings (arbiter)
+    // --------------------------------------------------
+
+    /// @notice Flag a resolution as fraudulent. Only a player of the game, within `challengeWindow` of the resolution.
+    /// @dev Needs an arbiter: nobody else can rule on the dispute, and the governor's bond is frozen until someone does.
+    function dispute(uint256 gameId) external {
+        require(arbiter != address(0), "No arbiter");
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+
+        require(game.state == GameEscrowStorage.State.Resolved && game.resolvedAt != 0, "Game not resolved");
+        require(block.timestamp <= game.resolvedAt + challengeWindow, "Challenge window closed");
+        require(_contains(game.players, msg.sender) && !_contains(game.forfeited, msg.sender), "Not a player");
+        require(disputedBy[gameId] == address(0) && !ruled[gameId], "Already disputed");
+
+        disputedBy[gameId] = msg.sender;
+        bonds[game.governor].openDisputes += 1;
+        emit Disputed(gameId, game.governor, msg.sender);
+    }
+
+    /// @notice Rule a resolution fraudulent: take `amounts[i]` from the governor's bond for `players[i]`. Works on
+    ///         disputed games at any time and on undisputed ones within the challenge window.
+    function slash(
+        uint256 gameId,
+        address[] calldata players,
+        uint256[] calldata amounts,
+        string calldata reason
+    ) external nonReentrant onlyArbiter {
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+        Bond storage b = bonds[game.governor];
+
+        require(game.state == GameEscrowStorage.State.Resolved && game.resolvedAt != 0, "Game not resolved");
+        require(!ruled[gameId], "Already ruled");
+        require(
+            disputedBy[gameId] != address(0) || block.timestamp <= game.resolvedAt + challengeWindow,
+            "Challenge window closed"
+        );
+        require(players.length == amounts.length && players.length > 0, "Length mismatch");
+
+        uint256 total;
+        for (uint256 i; i < players.length; ) {
+            require(_contains(game.players, players[i]), "Not a player");
+            total += amounts[i];
+            _credit(gameId, address(0), players[i], amounts[i]);
+            unchecked { ++i; }
+        }
+        require(total <= b.amount, "Bond too small");
+
+        b.amount -= total;
+        b.slashedTotal += total;
+        _closeDispute(gameId, b);
+
+        governorSlashes[game.governor].push(slashes.length);
+        slashes.push(Slash({
+            gameId: gameId,
+            governor: game.governor,
+            amount: total,
+            timestamp: uint64(block.timestamp),
+            reason: reason
+        }));
+        emit Slashed(gameId, game.governor, total, reason);
+    }
+
+    /// @notice Rule a disputed resolution fair. The game can't be disputed again.
+    function dismiss(uint256 gameId) external onlyArbiter {
+        require(disputedBy[gameId] != address(0) && !ruled[gameId], "No open dispute");
+        address governor = escrow.getGame(gameId).governor;
+        _closeDispute(gameId, bonds[governor]);
+        emit DisputeDismissed(gameId, governor);
+    }
+
+    function _closeDispute(uint256 gameId, Bond storage b) internal {
+        if (disputedBy[gameId] != address(0)) b.openDisputes -= 1;
+        ruled[gameId] = true;
+    }
+
+    // --------------------------------------------------
+    // Admin (escrow owner)
+    // --------------------------------------------------
+
+    function setArbiter(address _arbiter) external {
+        require(msg.sender == escrow.owner(), "Not owner");
+        arbiter = _arbiter;
+        emit ArbiterSet(_arbiter);
+    }
+
+    function _contains(address[] memory list, address account) internal pure returns (bool) {
+        for (uint256 i; i < list.length; ) {
+            if (list[i] == account) return true;
+            unchecked { ++i; }
+        }
+        return false;
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getBond(address governor) external view returns (Bond memory) {
+        return bonds[governor];
+    }
+
+    /// @notice `governor`'s bond that isn't on its way out, which games with a `minGovernorBond` compare against.
+    function bondOf(address governor) external view returns (uint256) {
+        Bond storage b = bonds[governor];
+        // Slashes during the wait may leave less than the pending withdrawal
+        return b.pendingWithdrawal < b.amount ? b.amount - b.pendingWithdrawal : 0;
+    }
+
+    /// @notice Every slash of `governor`'s bond, oldest first.
+    function getSlashes(address governor) external view returns (Slash[] memory list) {
+        uint256[] storage ids = governorSlashes[governor];
+        list = new Slash[](ids.length);
+        for (uint256 i; i < ids.length; ) {
+            list[i] = slashes[ids[i]];
+            unchecked { ++i; }
+        }
+    }
+}
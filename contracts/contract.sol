@@ -1,199 +1,384 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-
-contract GameEscrow is ReentrancyGuard {
-    modifier onlyGovernor(uint256 gameId) {
-        require(games[gameId].governor == msg.sender, "Not governor");
-        _;
-    }
-
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Not owner");
-        _;
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "./escrowStorage.sol";
+
+/// @dev Hosted games, forfeit, concede, lobby closing, expiry refunds, cancellation, admin functions and the game index
+///      views live in GameEscrowExtension (see {fallback}); the ABI published for GameEscrow includes them. `multicall` batches calls
+///      as the sender, e.g. createGame + startGame or many resolutions. It is not payable — every delegatecall would see
+///      the same `msg.value` — so ETH games can't be batched, but a creator who fills the lobby alone
+///      (`maxPlayers == 1`) starts it on creation.
+contract GameEscrow is GameEscrowStorage, EIP712, Multicall {
+    struct GameConfig {
+        address governor;               // fee recipient; must be in `governors` when a council is set
+        address token;                  // address(0) = native ETH
+        uint256 stakeAmount;
+        uint256 maxPlayers;             // 0 = unlimited; a join that fills the lobby starts the game
+        uint256 minPlayers;             // active players needed to start, 0 = no minimum
+        uint64 joinDeadline;            // unix seconds after which joins stop and anyone may close the lobby, 0 = none
+        uint64 resolutionTimeout;       // 0 = never expires
+        uint8 maxGovernorFeePercentage;
+        uint16 concedeRefundBps;        // bps of the stake refunded to a player who concedes, 0 = none
+        uint16[] payoutSchedule;        // bps per rank summing to 10000, empty = equal split
+        address[] whitelist;            // empty = public
+        uint8 teamCount;                // 0 = free-for-all, otherwise 2+ teams picked with `joinTeam`
+        uint16 maxTeamSize;             // players per team, 0 = unlimited
+        uint8 creatorTeam;              // team the creator joins in team games
+        bytes32 whitelistRoot;          // Merkle root of invited addresses for large lobbies, 0 = none
+        address[] governors;            // M-of-N council, empty = `governor` alone
+        uint8 governorThreshold;        // votes needed when `governors` is set
+        bytes32 gameType;               // lets governors pick the games they know how to run, 0 = untyped
+        string metadataURI;             // rules or description, e.g. ipfs://…
+        bytes metadata;                 // custom game settings, stored and returned as-is
+        address referrer;               // frontend that brought the creator, address(0) = none
+        uint256 minGovernorBond;        // bond `governor` must keep in the escrow's `bondRegistry`, 0 = none
     }
 
-    enum State { Open, Started, Resolved }
-
-    struct Game {
-        address governor;           // slot 0
-        State state;                // slot 0 (1 byte) — packs with governor
-
-        uint256 stakeAmount;        // slot 1
-        uint256 maxPlayers;         // slot 2
-        uint256 activePlayers;      // slot 3
+    bytes32 public constant RESOLUTION_TYPEHASH = keccak256(
+        "Resolution(uint256 gameId,address[] losers,uint256 governorFeePercentage,uint256 nonce,uint256 deadline)"
+    );
 
-        address[] players;          // slot 4
-        address[] losers;           // slot 5
-        address[] whitelist;        // slot 6
-        address[] forfeited;        // slot 7
+    address public immutable extension;
 
-        mapping(address => bool) isLoser;        // slot 8
-        mapping(address => bool) isWhitelisted;  // slot 9
-        mapping(address => bool) hasForfeit;     // slot 10
-        mapping(address => bool) isPlayer;       // slot 11
+    constructor(address _extension) EIP712("GameEscrow", "1") {
+        extension = _extension;
+        owner = msg.sender;
+        feeRecipient = msg.sender;
     }
 
-    struct GameInfo {
-        address governor;
-        uint256 stakeAmount;
-        uint256 maxPlayers;
-        uint256 activePlayers;
-        State state;
-        address[] players;
-        address[] losers;
-        address[] whitelist;
-        address[] forfeited;
+    /// @dev Runs functions GameEscrow doesn't define in `extension`, on this contract's storage.
+    fallback() external {
+        (bool ok, bytes memory result) = extension.delegatecall(msg.data);
+        assembly ("memory-safe") {
+            if iszero(ok) { revert(add(result, 32), mload(result)) }
+            return(add(result, 32), mload(result))
+        }
     }
 
-    mapping(uint256 => Game) public games;
-    uint256 public nextGameId;
-    address public owner;
-    uint256 public houseFeePercentage;
-    uint256 public accumulatedHouseFees;
+    // --------------------------------------------------
+    // Game lifecycle
+    // --------------------------------------------------
 
-    constructor() {
-        owner = msg.sender;
+    function createGame(GameConfig calldata config) external payable nonReentrant whenNotPaused returns (uint256) {
+        return _createGame(msg.sender, config);
     }
 
-    event GameCreated(uint256 indexed gameId, address creator, uint256 stakeAmount);
-    event PlayerJoined(uint256 indexed gameId, address player);
-    event PlayerForfeited(uint256 indexed gameId, address player);
-    event GameStarted(uint256 indexed gameId);
-    event GameResolved(
-        uint256 indexed gameId,
-        address[] winners,
-        address[] losers
-    );
+    /// @notice A host approved by the owner (see {setHost}) creates a game on behalf of `creator`, who takes the first
+    ///         seat exactly as if they had called {createGame}. The host pays the stake. GameSeries opens rematches this way.
+    function createGameFor(address creator, GameConfig calldata config)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        if (!hosts[msg.sender]) revert NotHost();
+        return _createGame(creator, config);
+    }
 
-    // --------------------------------------------------
-    // Game lifecycle
-    // --------------------------------------------------
+    /// @dev The stake is collected from the caller, which is the host in {createGameFor}.
+    function _createGame(address creator, GameConfig calldata config) internal returns (uint256) {
+        if (config.governor == address(0)) revert InvalidGovernor();
+        if (houseFeePercentage + config.maxGovernorFeePercentage > 100) revert FeeOverflow();
+        if (config.maxPlayers != 0 && config.minPlayers > config.maxPlayers) revert InvalidPlayerBounds();
+        if (config.joinDeadline != 0 && config.joinDeadline <= block.timestamp) revert InvalidJoinDeadline();
+        if (config.concedeRefundBps > BPS) revert InvalidConcedeRefund();
+        if (config.teamCount == 1 || config.teamCount == NO_TEAM) revert InvalidTeamCount();
+        if (config.teamCount != 0 && config.creatorTeam >= config.teamCount) revert InvalidTeam();
 
-    function createGame(
-        address governor,
-        uint256 stakeAmount,
-        uint256 maxPlayers,
-        address[] calldata whitelist
-    ) external payable returns (uint256) {
-        require(msg.value == stakeAmount, "Incorrect stake");
-        require(governor != address(0), "Invalid governor");
+        _collectStake(config.token, config.stakeAmount);
 
         uint256 gameId = nextGameId++;
         Game storage game = games[gameId];
 
-        game.governor = governor;
-        game.stakeAmount = stakeAmount;
-        game.maxPlayers = maxPlayers;
+        game.governor = config.governor;
+        game.token = config.token;
+        game.stakeAmount = config.stakeAmount;
+        game.maxPlayers = config.maxPlayers;
+        game.minPlayers = config.minPlayers;
+        game.joinDeadline = config.joinDeadline;
+        game.resolutionTimeout = config.resolutionTimeout;
+        game.maxGovernorFeePercentage = config.maxGovernorFeePercentage;
+        game.concedeRefundBps = config.concedeRefundBps;
+        game.teamCount = config.teamCount;
+        game.maxTeamSize = config.maxTeamSize;
+        game.houseFeePercentage = uint8(houseFeePercentage);
+        game.governorThreshold = 1;
+        game.minGovernorBond = config.minGovernorBond;
+        _checkBond(game);
+
+        address[] calldata council = config.governors;
+        if (council.length > 0) {
+            if (config.governorThreshold == 0 || config.governorThreshold > council.length) revert InvalidThreshold();
+            for (uint256 i; i < council.length; ) {
+                if (council[i] == address(0)) revert InvalidGovernor();
+                if (game.isGovernor[council[i]]) revert DuplicateGovernor();
+                game.governors.push(council[i]);
+                game.isGovernor[council[i]] = true;
+                unchecked { ++i; }
+            }
+            if (!game.isGovernor[config.governor]) revert GovernorNotInCouncil();
+            game.governorThreshold = config.governorThreshold;
+            for (uint256 i; i < council.length; ) {
+                governorGames[council[i]].push(gameId);
+                unchecked { ++i; }
+            }
+        } else {
+            governorGames[config.governor].push(gameId);
+            if (config.governor.code.length > 0) {
+                (bool ok, bytes memory ret) = config.governor.staticcall(
+                    abi.encodeCall(IERC165.supportsInterface, (type(IGameGovernor).interfaceId))
+                );
+                game.governorHooks = ok && ret.length == 32 && abi.decode(ret, (bool));
+            }
+        }
 
-        game.players.push(msg.sender);
-        game.isPlayer[msg.sender] = true;
+        game.players.push(creator);
+        game.isPlayer[creator] = true;
         game.activePlayers = 1;
+        playerGames[creator].push(gameId);
+        if (config.teamCount > 0) _assignTeam(game, creator, config.creatorTeam);
+        _setReferrer(game, creator, config.referrer);
+
+        uint16[] calldata schedule = config.payoutSchedule;
+        if (schedule.length > 0) {
+            if (config.maxPlayers != 0 && schedule.length > config.maxPlayers) revert ScheduleTooLong();
+            uint256 totalBps;
+            for (uint256 i; i < schedule.length; ) {
+                if (schedule[i] == 0) revert EmptyRank();
+                if (i > 0 && schedule[i] > schedule[i - 1]) revert ScheduleNotDescending();
+                totalBps += schedule[i];
+                game.payoutSchedule.push(schedule[i]);
+                unchecked { ++i; }
+            }
+            if (totalBps != BPS) revert InvalidScheduleTotal();
+        }
 
+        address[] calldata whitelist = config.whitelist;
         if (whitelist.length > 0) {
             for (uint256 i; i < whitelist.length; ) {
                 game.whitelist.push(whitelist[i]);
                 game.isWhitelisted[whitelist[i]] = true;
                 unchecked { ++i; }
             }
-            if (!game.isWhitelisted[msg.sender]) {
-                game.whitelist.push(msg.sender);
-                game.isWhitelisted[msg.sender] = true;
+            if (!game.isWhitelisted[creator]) {
+                game.whitelist.push(creator);
+                game.isWhitelisted[creator] = true;
             }
         }
-
-        emit GameCreated(gameId, msg.sender, stakeAmount);
+        game.whitelistRoot = config.whitelistRoot;
+        game.gameType = config.gameType;
+        game.metadataURI = config.metadataURI;
+        game.metadata = config.metadata;
+
+        emit GameCreated(
+            gameId,
+            creator,
+            config.token,
+            config.stakeAmount,
+            config.gameType,
+            config.metadataURI,
+            config.metadata
+        );
+
+        if (game.governorHooks) IGameGovernor(config.governor).onJoin(gameId, creator);
+        _checkReady(gameId, game);
+        // A solo game is full on creation, so it locks like any other full lobby
+        if (config.maxPlayers == 1) _start(gameId, game);
         return gameId;
     }
 
-    function joinGame(uint256 gameId) external payable nonReentrant {
-        Game storage game = games[gameId];
-
-        require(game.governor != address(0), "Game does not exist");
-        require(game.state == State.Open, "Game not open");
-        require(!game.isPlayer[msg.sender], "Already joined");
-        require(msg.value == game.stakeAmount, "Incorrect stake");
+    function joinGame(uint256 gameId) external payable nonReentrant whenNotPaused {
+        _join(gameId, msg.sender, new bytes32[](0), NO_TEAM, address(0));
+    }
 
-        if (game.maxPlayers > 0) {
-            require(game.players.length < game.maxPlayers, "Game full");
-        }
+    /// @notice Join a game gated by a Merkle whitelist. Leaves are `keccak256(bytes.concat(keccak256(abi.encode(player))))`
+    ///         and pairs are hashed sorted, as built by the SDK's `EscrowClient.merkleProof`.
+    function joinGameWithProof(uint256 gameId, bytes32[] calldata proof) external payable nonReentrant whenNotPaused {
+        _join(gameId, msg.sender, proof, NO_TEAM, address(0));
+    }
 
-        if (game.whitelist.length > 0) {
-            require(game.isWhitelisted[msg.sender], "Not whitelisted");
-        }
+    /// @notice Join team `team` (0-based) of a team game. Pass an empty `proof` unless the game has a `whitelistRoot`.
+    function joinTeam(uint256 gameId, uint8 team, bytes32[] calldata proof) external payable nonReentrant whenNotPaused {
+        _join(gameId, msg.sender, proof, team, address(0));
+    }
 
-        game.players.push(msg.sender);
-        game.isPlayer[msg.sender] = true;
-        game.activePlayers += 1;
+    /// @notice Join crediting `referrer` (e.g. the frontend the player came from) with a share of the house fee.
+    ///         Pass `team = type(uint8).max` outside team games and an empty `proof` unless the game has a `whitelistRoot`.
+    function joinWithReferrer(uint256 gameId, uint8 team, bytes32[] calldata proof, address referrer)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+    {
+        _join(gameId, msg.sender, proof, team, referrer);
+    }
 
-        emit PlayerJoined(gameId, msg.sender);
+    /// @notice Join an ERC-20 game using an EIP-2612 permit instead of a prior approve.
+    function joinGameWithPermit(
+        uint256 gameId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        address token = games[gameId].token;
+        if (token == address(0)) revert NotTokenGame();
+
+        // A front-run permit still leaves the allowance in place, so don't revert on failure
+        try IERC20Permit(token).permit(msg.sender, address(this), games[gameId].stakeAmount, deadline, v, r, s) {} catch {}
+
+        _join(gameId, msg.sender, new bytes32[](0), NO_TEAM, address(0));
     }
 
     // --------------------------------------------------
-    // Pre-start forfeit (immediate refund)
+    // Step 1: Start game (lock lobby, no more joins)
     // --------------------------------------------------
 
-    function forfeitGame(uint256 gameId) external nonReentrant {
+    /// @dev In council games each call is one governor's vote; the lobby locks once the threshold is met.
+    function startGame(uint256 gameId) external onlyGovernor(gameId) {
         Game storage game = games[gameId];
 
-        require(game.state == State.Open, "Game not open");
-        require(game.isPlayer[msg.sender], "Not a player");
-        require(!game.hasForfeit[msg.sender], "Already forfeited");
-
-        // effects
-        game.hasForfeit[msg.sender] = true;
-        game.forfeited.push(msg.sender);
-        game.activePlayers -= 1;
+        if (game.state != State.Open) revert GameNotOpen();
+        if (game.activePlayers == 0) revert NoPlayers();
+        if (game.activePlayers < game.minPlayers) revert NotEnoughPlayers();
 
-        emit PlayerForfeited(gameId, msg.sender);
-
-        // interaction — skip transfer for free games
-        if (game.stakeAmount > 0) {
-            (bool success, ) = msg.sender.call{value: game.stakeAmount}("");
-            require(success, "Refund failed");
+        if (game.governors.length > 0) {
+            if (game.votedStart[msg.sender]) revert AlreadyVoted();
+            game.votedStart[msg.sender] = true;
+            uint8 votes = ++game.startVotes;
+            emit StartVoted(gameId, msg.sender, votes);
+            if (votes < game.governorThreshold) return;
         }
 
-        // Auto-resolve if no active players remain
-        if (game.activePlayers == 0) {
-            game.state = State.Resolved;
-        }
+        _start(gameId, game);
     }
 
     // --------------------------------------------------
-    // Step 1: Start game (lock lobby, no more joins)
+    // Step 2: Resolve game (atomic loser marking + credit payouts)
     // --------------------------------------------------
 
-    function startGame(uint256 gameId) external onlyGovernor(gameId) {
+    function resolveGame(
+        uint256 gameId,
+        address[] calldata losers,
+        uint256 governorFeePercentage
+    ) external nonReentrant onlyGovernor(gameId) {
+        if (_castVote(gameId, msg.sender, false, losers, governorFeePercentage)) {
+            _resolve(gameId, losers, governorFeePercentage);
+        }
+    }
+
+    /// @notice Settles a game run by an IGameGovernor contract from its `computeLosers`. Anyone can call it once the
+    ///         governor reports the outcome ready; no governor fee is charged.
+    function resolveByGovernor(uint256 gameId) external nonReentrant {
         Game storage game = games[gameId];
+        if (!game.governorHooks) revert NoGovernorHooks();
 
-        require(game.state == State.Open, "Game not open");
-        require(game.activePlayers > 0, "No players");
+        (bool ready, address[] memory losers) = IGameGovernor(game.governor).computeLosers(gameId);
+        if (!ready) revert OutcomeNotReady();
+        _resolve(gameId, losers, 0);
+    }
 
-        game.state = State.Started;
-        emit GameStarted(gameId);
+    /// @notice Team games: every member of `losingTeams` loses, members of the other teams split the pot.
+    /// @dev Counts as a regular `resolveGame` vote over the derived losers in council games.
+    function resolveTeams(
+        uint256 gameId,
+        uint8[] calldata losingTeams,
+        uint256 governorFeePercentage
+    ) external nonReentrant onlyGovernor(gameId) {
+        address[] memory losers = _teamLosers(games[gameId], losingTeams);
+        if (_castVote(gameId, msg.sender, false, losers, governorFeePercentage)) {
+            _resolve(gameId, losers, governorFeePercentage);
+        }
     }
 
-    // --------------------------------------------------
-    // Step 2: Resolve game (atomic loser marking + auto-payout)
-    // --------------------------------------------------
+    /// @dev Active members of `teams`, skipping players who already conceded.
+    function _teamLosers(Game storage game, uint8[] calldata teams) internal view returns (address[] memory losers) {
+        if (game.teamCount == 0) revert NotTeamGame();
 
-    function resolveGame(
+        uint256 teamMask;
+        for (uint256 i; i < teams.length; ) {
+            if (teams[i] >= game.teamCount) revert InvalidTeam();
+            if (teamMask & (1 << teams[i]) != 0) revert DuplicateTeam();
+            teamMask |= 1 << teams[i];
+            unchecked { ++i; }
+        }
+
+        uint256 playersLength = game.players.length;
+        uint256 count;
+        for (uint256 i; i < playersLength; ) {
+            if (_losesWithTeam(game, i, teamMask)) {
+                unchecked { ++count; }
+            }
+            unchecked { ++i; }
+        }
+
+        losers = new address[](count);
+        uint256 li;
+        for (uint256 i; i < playersLength; ) {
+            if (_losesWithTeam(game, i, teamMask)) {
+                losers[li] = game.players[i];
+                unchecked { ++li; }
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    function _losesWithTeam(Game storage game, uint256 index, uint256 teamMask) internal view returns (bool) {
+        address p = game.players[index];
+        return teamMask & (1 << game.playerTeams[index]) != 0 && !game.hasForfeit[p] && !game.isLoser[p];
+    }
+
+    /// @notice Submit a resolution the governor signed off-chain (EIP-712). Callable by anyone, e.g. a relayer.
+    /// @dev Nonces are unordered so a governor can sign for many games concurrently; see {cancelNonce}.
+    ///      In council games the signature counts as the signer's vote.
+    function resolveGameWithSig(
         uint256 gameId,
         address[] calldata losers,
+        uint256 governorFeePercentage,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant {
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            RESOLUTION_TYPEHASH,
+            gameId,
+            keccak256(abi.encodePacked(losers)),
+            governorFeePercentage,
+            nonce,
+            deadline
+        )));
+        address signer = ECDSA.recover(digest, signature);
+        if (!_isGovernor(games[gameId], signer)) revert InvalidSignature();
+
+        _useNonce(signer, nonce);
+        if (_castVote(gameId, signer, false, losers, governorFeePercentage)) {
+            _resolve(gameId, losers, governorFeePercentage);
+        }
+    }
+
+    function _resolve(
+        uint256 gameId,
+        address[] memory losers,
         uint256 governorFeePercentage
-    ) external nonReentrant onlyGovernor(gameId) {
+    ) internal {
         Game storage game = games[gameId];
 
-        require(game.state == State.Started, "Game not started");
-        require(houseFeePercentage + governorFeePercentage <= 100, "Fee overflow");
+        if (game.state != State.Started) revert GameNotStarted();
+        if (game.payoutSchedule.length != 0) revert RankedGame();
 
         // Mark all losers atomically
         for (uint256 i; i < losers.length; ) {
             address loser = losers[i];
-            require(game.isPlayer[loser], "Not a player");
-            require(!game.hasForfeit[loser], "Player forfeited");
-            require(!game.isLoser[loser], "Duplicate loser");
+            if (!game.isPlayer[loser]) revert NotPlayer();
+            if (game.hasForfeit[loser]) revert ForfeitedPlayer();
+            if (game.isLoser[loser]) revert DuplicateLoser();
 
             game.losers.push(loser);
             game.isLoser[loser] = true;
@@ -212,24 +397,9 @@ contract GameEscrow is ReentrancyGuard {
             unchecked { ++i; }
         }
 
-        // Compute prize pool
-        uint256 totalPrize = game.stakeAmount * game.activePlayers;
-        uint256 houseFee = (totalPrize * houseFeePercentage) / 100;
-        uint256 governorFee = (totalPrize * governorFeePercentage) / 100;
-        uint256 remainingPrize = totalPrize - houseFee - governorFee;
-
-        // Record house fee (owner withdraws separately)
-        accumulatedHouseFees += houseFee;
-
-        game.state = State.Resolved;
+        uint256 remainingPrize = _settleFees(gameId, game, governorFeePercentage);
 
-        // Pay governor fee
-        if (governorFee > 0) {
-            (bool ok, ) = game.governor.call{value: governorFee}("");
-            require(ok, "Governor transfer failed");
-        }
-
-        // Build winners array + pay out in one pass
+        // Build winners array + credit payouts in one pass
         address[] memory winners = new address[](winnerCount);
         uint256 wi;
 
@@ -243,93 +413,171 @@ contract GameEscrow is ReentrancyGuard {
                     winners[wi] = p;
                     uint256 payout = prizePerWinner;
                     if (wi == 0) payout += dust; // first winner gets dust
-                    if (payout > 0) {
-                        (bool ok, ) = p.call{value: payout}("");
-                        require(ok, "Payout failed");
-                    }
+                    _credit(gameId, game.token, p, payout);
                     unchecked { ++wi; }
                 }
                 unchecked { ++i; }
             }
         } else {
             // No winners: governor gets remainder
-            if (remainingPrize > 0) {
-                (bool ok, ) = game.governor.call{value: remainingPrize}("");
-                require(ok, "Remainder transfer failed");
-            }
+            _credit(gameId, game.token, game.governor, remainingPrize);
         }
 
         emit GameResolved(gameId, winners, game.losers);
     }
 
     // --------------------------------------------------
-    // Views
+    // Step 2 (ranked games): resolve by finishing order
     // --------------------------------------------------
 
-    function getGame(uint256 gameId) external view returns (GameInfo memory) {
-        Game storage game = games[gameId];
-        return GameInfo({
-            governor: game.governor,
-            stakeAmount: game.stakeAmount,
-            maxPlayers: game.maxPlayers,
-            activePlayers: game.activePlayers,
-            state: game.state,
-            players: game.players,
-            losers: game.losers,
-            whitelist: game.whitelist,
-            forfeited: game.forfeited
-        });
+    /// @notice Pays `ranking[i]` the game's `payoutSchedule[i]` share of the pot; unranked active players lose.
+    /// @dev A ranking shorter than the schedule re-normalizes the filled ranks so the whole pot is paid out.
+    function resolveRanked(
+        uint256 gameId,
+        address[] calldata ranking,
+        uint256 governorFeePercentage
+    ) external nonReentrant onlyGovernor(gameId) {
+        if (_castVote(gameId, msg.sender, true, ranking, governorFeePercentage)) {
+            _resolveRanked(gameId, ranking, governorFeePercentage);
+        }
     }
 
-    function getGames(
-        address governor,
-        bool includeResolved,
-        bool includeOngoing,
-        bool includeNotStarted,
-        uint256 offset,
-        uint256 limit
-    ) external view returns (uint256[] memory) {
-        uint256[] memory temp = new uint256[](limit);
-        uint256 count = 0;
-        bool filterByGovernor = governor != address(0);
-
-        for (uint256 i = offset; i < nextGameId && count < limit; i++) {
-            if (filterByGovernor && games[i].governor != governor) continue;
-
-            State s = games[i].state;
-            bool shouldInclude =
-                (s == State.Open && includeNotStarted) ||
-                (s == State.Started && includeOngoing) ||
-                (s == State.Resolved && includeResolved);
-
-            if (shouldInclude) {
-                temp[count] = i;
-                count++;
+    function _resolveRanked(
+        uint256 gameId,
+        address[] calldata ranking,
+        uint256 governorFeePercentage
+    ) internal {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Started) revert GameNotStarted();
+        if (game.payoutSchedule.length == 0) revert NotRankedGame();
+        if (ranking.length > game.payoutSchedule.length) revert RankingTooLong();
+
+        // Validate ranking and sum the bps of the ranks being paid
+        uint256 filledBps;
+        for (uint256 i; i < ranking.length; ) {
+            address p = ranking[i];
+            if (!game.isPlayer[p]) revert NotPlayer();
+            if (game.hasForfeit[p]) revert ForfeitedPlayer();
+            if (game.isLoser[p]) revert ConcededPlayer();
+            for (uint256 j; j < i; ) {
+                if (ranking[j] == p) revert DuplicateRank();
+                unchecked { ++j; }
             }
+            filledBps += game.payoutSchedule[i];
+            unchecked { ++i; }
         }
 
-        uint256[] memory result = new uint256[](count);
-        for (uint256 i = 0; i < count; i++) {
-            result[i] = temp[i];
+        // Every active player outside the ranking is a loser
+        uint256 playersLength = game.players.length;
+        for (uint256 i; i < playersLength; ) {
+            address p = game.players[i];
+            if (!game.hasForfeit[p] && !game.isLoser[p] && !_contains(ranking, p)) {
+                game.losers.push(p);
+                game.isLoser[p] = true;
+            }
+            unchecked { ++i; }
         }
 
-        return result;
+        uint256 remainingPrize = _settleFees(gameId, game, governorFeePercentage);
+        uint256[] memory payouts = new uint256[](ranking.length);
+
+        if (ranking.length > 0) {
+            uint256 paid;
+            for (uint256 i; i < ranking.length; ) {
+                payouts[i] = (remainingPrize * game.payoutSchedule[i]) / filledBps;
+                paid += payouts[i];
+                unchecked { ++i; }
+            }
+            payouts[0] += remainingPrize - paid; // first place gets dust
+
+            for (uint256 i; i < ranking.length; ) {
+                _credit(gameId, game.token, ranking[i], payouts[i]);
+                unchecked { ++i; }
+            }
+        } else {
+            // No winners: governor gets remainder
+            _credit(gameId, game.token, game.governor, remainingPrize);
+        }
+
+        emit GameResolved(gameId, ranking, game.losers);
+        emit GameRankedPayout(gameId, ranking, payouts);
     }
 
-    // --------------------------------------------------
-    // Admin
-    // --------------------------------------------------
+    /// @dev Records a council governor's vote for an outcome and returns true once it reaches the threshold.
+    ///      Single-governor games skip the bookkeeping. A governor may switch their vote to another outcome.
+    function _castVote(
+        uint256 gameId,
+        address voter,
+        bool ranked,
+        address[] memory players,
+        uint256 governorFeePercentage
+    ) internal returns (bool) {
+        Game storage game = games[gameId];
+        if (game.governors.length == 0) return true;
+
+        if (game.state != State.Started) revert GameNotStarted();
+
+        bytes32 outcome = keccak256(abi.encode(ranked, players, governorFeePercentage));
+        uint256 votes = _tally(game, voter, outcome);
+
+        emit ResolutionVoted(gameId, voter, outcome, ranked, players, governorFeePercentage, votes);
+        return votes >= game.governorThreshold;
+    }
+
+
+    /// @dev Marks the game resolved, books the house fee and credits the governor fee. Returns the prize left for winners.
+    function _settleFees(
+        uint256 gameId,
+        Game storage game,
+        uint256 governorFeePercentage
+    ) internal returns (uint256 remainingPrize) {
+        if (governorFeePercentage > game.maxGovernorFeePercentage) revert FeeAboveCap();
+
+        // Compute prize pool, less what conceding players already took back
+        uint256 totalPrize = game.stakeAmount * game.activePlayers - _concedeRefund(game) * game.concessions;
+        uint256 houseFee = (totalPrize * game.houseFeePercentage) / 100;
+        uint256 governorFee = (totalPrize * governorFeePercentage) / 100;
+        remainingPrize = totalPrize - houseFee - governorFee;
+
+        // Record house fee (owner withdraws separately), less what referrers earned on their players
+        accumulatedHouseFees[game.token] += houseFee - _payReferrers(gameId, game, houseFee);
+
+        game.state = State.Resolved;
+        game.resolvedAt = uint64(block.timestamp);
+        lastResolvedAt[game.governor] = game.resolvedAt;
+
+        // Credit governor fee
+        _credit(gameId, game.token, game.governor, governorFee);
+    }
+
+    /// @dev Each non-forfeited player carries an equal slice of the house fee; their referrer gets its tier of that slice.
+    function _payReferrers(uint256 gameId, Game storage game, uint256 houseFee) internal returns (uint256 paid) {
+        if (houseFee == 0) return 0;
 
-    function withdraw() external onlyOwner {
-        uint256 amount = accumulatedHouseFees;
-        require(amount > 0, "No fees to withdraw");
-        accumulatedHouseFees = 0;
-        (bool success, ) = owner.call{value: amount}("");
-        require(success, "Withdraw failed");
+        uint256 slice = houseFee / game.activePlayers;
+        uint256 playersLength = game.players.length;
+        for (uint256 i; i < playersLength; ) {
+            address p = game.players[i];
+            address referrer = game.referrerOf[p];
+            if (referrer != address(0) && !game.hasForfeit[p]) {
+                uint256 amount = (slice * referralTiers[referrer]) / BPS;
+                if (amount > 0) {
+                    paid += amount;
+                    referralEarnings[referrer][game.token] += amount;
+                    emit ReferralPaid(gameId, referrer, p, amount);
+                    _credit(gameId, game.token, referrer, amount);
+                }
+            }
+            unchecked { ++i; }
+        }
     }
 
-    function setHouseFee(uint256 _houseFeePercentage) external onlyOwner {
-        require(_houseFeePercentage <= 100, "Fee too high");
-        houseFeePercentage = _houseFeePercentage;
+    function _contains(address[] calldata list, address account) internal pure returns (bool) {
+        for (uint256 i; i < list.length; ) {
+            if (list[i] == account) return true;
+            unchecked { ++i; }
+        }
+        return false;
     }
-}
\ No newline at end of file
+}
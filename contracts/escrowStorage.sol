@@ -0,0 +1,359 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./payouts.sol";
+import "./governor.sol";
+
+/// @notice Bond registry (GovernorBonds) that games with a `minGovernorBond` check their governor against.
+interface IBondRegistry {
+    function bondOf(address governor) external view returns (uint256);
+}
+
+/// @notice State, events and errors of GameEscrow, and the join and start internals that both GameEscrow and
+///         GameEscrowExtension use. The extension runs on GameEscrow's storage through its fallback, so both inherit
+///         this layout and neither may declare state variables of its own.
+abstract contract GameEscrowStorage is Payouts {
+    modifier onlyGovernor(uint256 gameId) {
+        if (!_isGovernor(games[gameId], msg.sender)) revert NotGovernor();
+        _;
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    /// @dev Guards only the ways money enters the escrow — starting, resolving, refunds and claims keep working.
+    modifier whenNotPaused() {
+        if (paused) revert Paused();
+        _;
+    }
+
+    enum State { Open, Started, Resolved, Expired, Cancelled }
+
+    struct Game {
+        address governor;           // slot 0
+        State state;                // slot 0 (1 byte) — packs with governor
+        uint64 resolveDeadline;     // slot 0 — set at start, 0 = no deadline
+        uint8 maxGovernorFeePercentage; // slot 0 — cap committed at creation
+        uint8 houseFeePercentage;   // slot 0 — snapshot at creation
+        address token;              // slot 1 — address(0) = native ETH
+        uint64 resolutionTimeout;   // slot 1 — seconds after start, 0 = never expires
+        uint8 governorThreshold;    // slot 1 — votes needed to start/resolve, 1 for single-governor games
+        uint8 startVotes;           // slot 1
+        uint16 concedeRefundBps;    // slot 1 — share of the stake returned to a player who concedes
+
+        uint256 stakeAmount;        // slot 2
+        uint256 maxPlayers;         // slot 3
+        uint256 activePlayers;      // slot 4
+
+        address[] players;          // slot 5
+        address[] losers;           // slot 6
+        address[] whitelist;        // slot 7
+        address[] forfeited;        // slot 8
+        uint16[] payoutSchedule;    // slot 9 — basis points per rank, empty = equal split
+        address[] governors;        // slot 10 — M-of-N council, empty = single governor
+        bytes32 whitelistRoot;      // slot 11 — Merkle root of invited addresses, 0 = none
+        uint256 minPlayers;         // slot 12 — active players needed to start
+        uint64 joinDeadline;        // slot 13 — unix seconds, 0 = lobby open until started
+        uint32 concessions;         // slot 13 — players who conceded mid-game
+        uint8 teamCount;            // slot 13 — 0 = free-for-all
+        uint16 maxTeamSize;         // slot 13 — per-team cap, 0 = unlimited
+        bool governorHooks;         // slot 13 — governor implements IGameGovernor and gets join/start callbacks
+        uint64 resolvedAt;          // slot 13 — unix seconds of the resolution, 0 = not resolved by a governor
+        bool lobbyReady;            // slot 13 — LobbyReady was emitted
+        uint8[] playerTeams;        // slot 14 — team of players[i], team games only
+
+        mapping(address => bool) isLoser;        // slot 15
+        mapping(address => bool) isWhitelisted;  // slot 16
+        mapping(address => bool) hasForfeit;     // slot 17
+        mapping(address => bool) isPlayer;       // slot 18
+        mapping(address => bool) isGovernor;     // slot 19
+        mapping(address => bool) votedStart;     // slot 20
+        mapping(address => bytes32) resolutionVote;   // slot 21 — governor => outcome hash
+        mapping(bytes32 => uint256) resolutionVotes;  // slot 22 — outcome hash => votes
+        mapping(address => uint8) teamOf;        // slot 23
+        mapping(uint8 => uint256) teamMembers;   // slot 24 — active (non-forfeited) players per team
+
+        bytes32 gameType;           // slot 25 — game identifier, e.g. "coinflip", 0 = untyped
+        string metadataURI;         // slot 26 — rules / off-chain description
+        bytes metadata;             // slot 27 — game-specific settings, opaque to the escrow
+        mapping(address => address) referrerOf;  // slot 28 — player => frontend that brought them
+        uint256 minGovernorBond;    // slot 29 — bond `governor` must keep in the bond registry, 0 = none
+    }
+
+    /// @dev `getGame` view of a game, mappings left out.
+    struct GameInfo {
+        address governor;
+        address token;
+        uint256 stakeAmount;
+        uint256 maxPlayers;
+        uint256 minPlayers;
+        uint64 joinDeadline;
+        uint256 activePlayers;
+        uint64 resolutionTimeout;
+        uint64 resolveDeadline;
+        uint64 resolvedAt;              // when a governor resolved the game, 0 = not resolved
+        uint8 maxGovernorFeePercentage;
+        uint8 houseFeePercentage;
+        uint16 concedeRefundBps;
+        State state;
+        address[] players;
+        address[] losers;
+        address[] whitelist;
+        address[] forfeited;
+        uint16[] payoutSchedule;
+        address[] governors;
+        uint8 governorThreshold;
+        bytes32 whitelistRoot;
+        uint8 teamCount;
+        uint16 maxTeamSize;
+        uint8[] playerTeams;            // team of players[i], empty for free-for-all games
+        bytes32 gameType;
+        string metadataURI;
+        bytes metadata;
+        bool governorHooks;             // governor is an IGameGovernor contract
+        uint256 minGovernorBond;        // bond the governor must keep in `bondRegistry`, 0 = none
+    }
+
+    uint256 internal constant BPS = 10_000;
+    uint8 internal constant NO_TEAM = type(uint8).max;
+
+    mapping(uint256 => Game) internal games;
+    uint256 public nextGameId;
+    address public owner;
+    address public pendingOwner;   // set by transferOwnership, becomes owner on acceptOwnership
+    address public feeRecipient;   // receives withdrawn house fees
+    bool public paused;
+    uint256 public houseFeePercentage;
+    mapping(address => uint256) public accumulatedHouseFees; // token => fees, address(0) = ETH
+    mapping(address => uint16) public referralTiers;   // referrer => bps of the house fee on the players they bring
+    mapping(address => mapping(address => uint256)) public referralEarnings; // referrer => token => lifetime earnings
+    mapping(address => mapping(uint256 => bool)) public usedNonces;   // signer (governor or relayed player) => nonce => used
+    mapping(address => uint256[]) internal playerGames;   // player => game ids, in join order
+    mapping(address => uint256[]) internal governorGames; // governor or council member => game ids
+    mapping(address => uint64) public lastResolvedAt;    // governor => when their latest game was resolved
+    address public bondRegistry;   // GovernorBonds checked by games with a minGovernorBond, address(0) = none
+    mapping(address => bool) public hosts;   // contracts the owner lets open hosted games, e.g. TournamentEscrow and GameSeries
+
+    event GameCreated(
+        uint256 indexed gameId,
+        address creator,
+        address token,
+        uint256 stakeAmount,
+        bytes32 indexed gameType,
+        string metadataURI,
+        bytes metadata
+    );
+    event PlayerJoined(uint256 indexed gameId, address player);
+    event PlayerForfeited(uint256 indexed gameId, address player);
+    event PlayerConceded(uint256 indexed gameId, address player, uint256 refund);
+    event GameStarted(uint256 indexed gameId);
+    event LobbyReady(uint256 indexed gameId, uint256 activePlayers);
+    event StartVoted(uint256 indexed gameId, address indexed governor, uint256 votes);
+    event ResolutionVoted(
+        uint256 indexed gameId,
+        address indexed governor,
+        bytes32 outcome,
+        bool ranked,
+        address[] players,
+        uint256 governorFeePercentage,
+        uint256 votes
+    );
+    event GameResolved(
+        uint256 indexed gameId,
+        address[] winners,
+        address[] losers
+    );
+    event GameRankedPayout(uint256 indexed gameId, address[] ranking, uint256[] payouts);
+    event GameExpired(uint256 indexed gameId, address[] refunded);
+    event CancelVoted(uint256 indexed gameId, address indexed governor, uint256 votes);
+    event GameCancelled(uint256 indexed gameId, address[] refunded);
+    event NonceUsed(address indexed governor, uint256 nonce);
+    event PausedSet(bool paused);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event FeeRecipientSet(address feeRecipient);
+    event ReferralTierSet(address indexed referrer, uint16 bps);
+    event ReferralPaid(uint256 indexed gameId, address indexed referrer, address player, uint256 amount);
+    event BondRegistrySet(address bondRegistry);
+    event HostSet(address indexed host, bool allowed);
+
+    // Custom errors instead of revert strings keep the runtime code under the EIP-170 size limit
+    error NotGovernor();
+    error NotOwner();
+    error NotHost();
+    error NotPendingOwner();
+    error Paused();
+
+    error InvalidGovernor();
+    error DuplicateGovernor();
+    error GovernorNotInCouncil();
+    error InvalidThreshold();
+    error FeeOverflow();
+    error InvalidPlayerBounds();
+    error InvalidJoinDeadline();
+    error InvalidConcedeRefund();
+    error InvalidTeamCount();
+    error InvalidTeam();
+    error ScheduleTooLong();
+    error EmptyRank();
+    error ScheduleNotDescending();
+    error InvalidScheduleTotal();
+
+    error GameDoesNotExist();
+    error GameNotOpen();
+    error GameNotStarted();
+    error GameNotActive();
+    error GameFull();
+    error AlreadyJoined();
+    error JoinDeadlinePassed();
+    error GovernorUnbonded();
+    error LobbyStillOpen();
+    error NotWhitelisted();
+    error NotTokenGame();
+    error NotTeamGame();
+    error PickTeam();
+    error TeamFull();
+    error DuplicateTeam();
+    error NotPlayer();
+    error AlreadyForfeited();
+    error AlreadyConceded();
+    error NoPlayers();
+    error NotEnoughPlayers();
+    error AlreadyVoted();
+
+    error RankedGame();
+    error NotRankedGame();
+    error RankingTooLong();
+    error DuplicateRank();
+    error DuplicateLoser();
+    error ForfeitedPlayer();
+    error ConcededPlayer();
+    error FeeAboveCap();
+    error NotExpired();
+    error SignatureExpired();
+    error InvalidSignature();
+    error NonceAlreadyUsed();
+    error NoGovernorHooks();
+    error OutcomeNotReady();
+
+    error NoFeesToWithdraw();
+    error FeeTooHigh();
+    error InvalidFeeRecipient();
+    error InvalidReferrer();
+    error InvalidReferralTier();
+
+    function _isGovernor(Game storage game, address account) internal view returns (bool) {
+        return game.governors.length == 0 ? game.governor == account : game.isGovernor[account];
+    }
+
+    function _concedeRefund(Game storage game) internal view returns (uint256) {
+        return (game.stakeAmount * game.concedeRefundBps) / BPS;
+    }
+
+    /// @dev `player` joins and pays the stake: the caller, or the signer of a relayed join.
+    function _join(uint256 gameId, address player, bytes32[] memory proof, uint8 team, address referrer) internal {
+        Game storage game = games[gameId];
+
+        if (game.governor == address(0)) revert GameDoesNotExist();
+        if (game.state != State.Open) revert GameNotOpen();
+        if (game.isPlayer[player]) revert AlreadyJoined();
+        if (game.joinDeadline != 0 && block.timestamp > game.joinDeadline) revert JoinDeadlinePassed();
+
+        // Forfeited seats are free again, so only active players fill the lobby
+        if (game.maxPlayers > 0) {
+            if (game.activePlayers >= game.maxPlayers) revert GameFull();
+        }
+
+        if (game.teamCount > 0) {
+            if (team == NO_TEAM) revert PickTeam();
+            _assignTeam(game, player, team);
+        } else {
+            if (team != NO_TEAM) revert NotTeamGame();
+        }
+
+        // Either whitelist admits: the stored list, or a proof against the committed root
+        if (game.whitelist.length > 0 || game.whitelistRoot != bytes32(0)) {
+            bool admitted = game.isWhitelisted[player] ||
+                (game.whitelistRoot != bytes32(0) &&
+                    MerkleProof.verify(proof, game.whitelistRoot, keccak256(bytes.concat(keccak256(abi.encode(player))))));
+            if (!admitted) revert NotWhitelisted();
+        }
+
+        _checkBond(game);
+        _collectStakeFrom(player, game.token, game.stakeAmount);
+
+        game.players.push(player);
+        game.isPlayer[player] = true;
+        game.activePlayers += 1;
+        playerGames[player].push(gameId);
+        _setReferrer(game, player, referrer);
+
+        emit PlayerJoined(gameId, player);
+        if (game.governorHooks) IGameGovernor(game.governor).onJoin(gameId, player);
+
+        _checkReady(gameId, game);
+        // A full lobby locks itself — no need to wait for the governor
+        if (game.maxPlayers > 0 && game.activePlayers == game.maxPlayers && game.activePlayers >= game.minPlayers) {
+            _start(gameId, game);
+        }
+    }
+
+    /// @dev Emits LobbyReady once, the first time the lobby has enough players to start — on creation when
+    ///      `minPlayers <= 1`. Forfeits don't reset it.
+    function _checkReady(uint256 gameId, Game storage game) internal {
+        if (game.lobbyReady || game.activePlayers < game.minPlayers) return;
+        game.lobbyReady = true;
+        emit LobbyReady(gameId, game.activePlayers);
+    }
+
+    /// @dev Games with a bond requirement only take stakes while their governor's bond covers it.
+    function _checkBond(Game storage game) internal view {
+        if (game.minGovernorBond == 0) return;
+        if (bondRegistry == address(0) || IBondRegistry(bondRegistry).bondOf(game.governor) < game.minGovernorBond) {
+            revert GovernorUnbonded();
+        }
+    }
+
+    function _setReferrer(Game storage game, address player, address referrer) internal {
+        if (referrer == address(0)) return;
+        if (referrer == player) revert InvalidReferrer();
+        game.referrerOf[player] = referrer;
+    }
+
+    function _assignTeam(Game storage game, address player, uint8 team) internal {
+        if (team >= game.teamCount) revert InvalidTeam();
+        if (game.maxTeamSize != 0 && game.teamMembers[team] >= game.maxTeamSize) revert TeamFull();
+
+        game.teamOf[player] = team;
+        game.teamMembers[team] += 1;
+        game.playerTeams.push(team);
+    }
+
+    function _start(uint256 gameId, Game storage game) internal {
+        game.state = State.Started;
+        if (game.resolutionTimeout > 0) {
+            game.resolveDeadline = uint64(block.timestamp) + game.resolutionTimeout;
+        }
+        emit GameStarted(gameId);
+        if (game.governorHooks) IGameGovernor(game.governor).onStart(gameId);
+    }
+
+    function _useNonce(address signer, uint256 nonce) internal {
+        if (usedNonces[signer][nonce]) revert NonceAlreadyUsed();
+        usedNonces[signer][nonce] = true;
+        emit NonceUsed(signer, nonce);
+    }
+
+    /// @dev Moves `voter`'s single outcome vote (resolution or cancel) to `outcome`.
+    function _tally(Game storage game, address voter, bytes32 outcome) internal returns (uint256) {
+        bytes32 previous = game.resolutionVote[voter];
+        if (previous == outcome) revert AlreadyVoted();
+        if (previous != bytes32(0)) game.resolutionVotes[previous] -= 1;
+
+        game.resolutionVote[voter] = outcome;
+        return ++game.resolutionVotes[outcome];
+    }
+}
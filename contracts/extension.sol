@@ -0,0 +1,431 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "./escrowStorage.sol";
+
+/// @notice Relayed joins, hosted games, player exits, lobby closing, refunds and cancellation, admin functions and game
+///         index views of GameEscrow, split out to keep GameEscrow under the EIP-170 size limit. Deploy it first and pass
+///         its address to the GameEscrow constructor. Call these functions on the escrow, which delegatecalls them here;
+///         called directly, they only see this contract's empty storage.
+contract GameEscrowExtension is GameEscrowStorage {
+    /// @notice A player's signed intent to join `gameId`, submitted by anyone with `joinGameWithSig`.
+    struct JoinRequest {
+        uint256 gameId;
+        address player;
+        uint8 team;             // type(uint8).max outside team games
+        address referrer;       // address(0) = none
+        uint256 nonce;          // unordered, shared with `cancelNonce`
+        uint256 deadline;
+    }
+
+    bytes32 public constant JOIN_TYPEHASH = keccak256(
+        "Join(uint256 gameId,address player,uint8 team,address referrer,uint256 nonce,uint256 deadline)"
+    );
+
+    bytes32 private constant CANCEL_OUTCOME = keccak256("cancel");
+
+    // --------------------------------------------------
+    // Relayed joins (the player signs, anyone pays the gas)
+    // --------------------------------------------------
+
+    /// @notice Join on behalf of `request.player`, who signed the request (EIP-712, GameEscrow's domain). The stake is
+    ///         pulled from the player, so only token games and free games qualify. Pass `v = 0` when the player
+    ///         already approved the escrow, otherwise their EIP-2612 permit for the stake.
+    function joinGameWithSig(
+        JoinRequest calldata request,
+        bytes32[] calldata proof,
+        bytes calldata signature,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        if (block.timestamp > request.deadline) revert SignatureExpired();
+
+        bytes32 digest = MessageHashUtils.toTypedDataHash(_domainSeparator(), keccak256(abi.encode(
+            JOIN_TYPEHASH,
+            request.gameId,
+            request.player,
+            request.team,
+            request.referrer,
+            request.nonce,
+            request.deadline
+        )));
+        if (ECDSA.recover(digest, signature) != request.player) revert InvalidSignature();
+        _useNonce(request.player, request.nonce);
+
+        Game storage game = games[request.gameId];
+        if (v != 0) {
+            if (game.token == address(0)) revert NotTokenGame();
+            // A front-run permit still leaves the allowance in place, so don't revert on failure
+            try IERC20Permit(game.token).permit(request.player, address(this), game.stakeAmount, permitDeadline, v, r, s) {} catch {}
+        }
+
+        _join(request.gameId, request.player, proof, request.team, request.referrer);
+    }
+
+    /// @dev GameEscrow's EIP-712 domain. Under its delegatecall `address(this)` is the escrow.
+    function _domainSeparator() internal view returns (bytes32) {
+        return keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256("GameEscrow"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    /// @notice Invalidate a signed resolution or join that hasn't been submitted yet.
+    function cancelNonce(uint256 nonce) external {
+        _useNonce(msg.sender, nonce);
+    }
+
+    // --------------------------------------------------
+    // Hosted games (the host holds the stakes, e.g. a tournament bracket)
+    // --------------------------------------------------
+
+    /// @notice A host approved by the owner (see {setHost}) seats `players` in a new stakeless game that it governs,
+    ///         started at once and without a resolution timeout. TournamentEscrow plays every bracket match this way:
+    ///         the pot stays with the host, while the match is an escrow game players can concede and the host resolves.
+    ///         Not paused with the escrow: no stakes move, and a bracket already under way must be able to open its next round.
+    function createHostedGame(address[] calldata players) external returns (uint256 gameId) {
+        if (!hosts[msg.sender]) revert NotHost();
+        if (players.length == 0) revert NoPlayers();
+
+        gameId = nextGameId++;
+        Game storage game = games[gameId];
+
+        game.governor = msg.sender;
+        game.governorThreshold = 1;
+        game.maxPlayers = players.length;
+        game.minPlayers = players.length;
+        governorGames[msg.sender].push(gameId);
+        emit GameCreated(gameId, msg.sender, address(0), 0, bytes32(0), "", "");
+
+        for (uint256 i; i < players.length; ) {
+            address p = players[i];
+            if (game.isPlayer[p]) revert AlreadyJoined();
+            game.players.push(p);
+            game.isPlayer[p] = true;
+            playerGames[p].push(gameId);
+            emit PlayerJoined(gameId, p);
+            unchecked { ++i; }
+        }
+        game.activePlayers = players.length;
+
+        _checkReady(gameId, game);
+        _start(gameId, game);
+    }
+
+    // --------------------------------------------------
+    // Pre-start forfeit (stake credited back)
+    // --------------------------------------------------
+
+    function forfeitGame(uint256 gameId) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Open) revert GameNotOpen();
+        if (!game.isPlayer[msg.sender]) revert NotPlayer();
+        if (game.hasForfeit[msg.sender]) revert AlreadyForfeited();
+
+        // effects
+        game.hasForfeit[msg.sender] = true;
+        game.forfeited.push(msg.sender);
+        game.activePlayers -= 1;
+        if (game.teamCount > 0) game.teamMembers[game.teamOf[msg.sender]] -= 1;
+
+        emit PlayerForfeited(gameId, msg.sender);
+
+        // stake is credited like every other refund and withdrawn with claim(token)
+        _credit(gameId, game.token, msg.sender, game.stakeAmount);
+
+        // Auto-resolve if no active players remain
+        if (game.activePlayers == 0) {
+            game.state = State.Resolved;
+        }
+    }
+
+    // --------------------------------------------------
+    // Mid-game concession (caller becomes a loser now)
+    // --------------------------------------------------
+
+    /// @notice Concede a started game. The caller is marked a loser immediately and credited the
+    ///         creator-configured share of their stake; the rest stays in the pot.
+    /// @dev Conceded players are already losers, so resolutions must not list them again.
+    function concede(uint256 gameId) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Started) revert GameNotStarted();
+        if (!game.isPlayer[msg.sender] || game.hasForfeit[msg.sender]) revert NotPlayer();
+        if (game.isLoser[msg.sender]) revert AlreadyConceded();
+
+        game.losers.push(msg.sender);
+        game.isLoser[msg.sender] = true;
+        game.concessions += 1;
+
+        uint256 refund = _concedeRefund(game);
+        _credit(gameId, game.token, msg.sender, refund);
+
+        emit PlayerConceded(gameId, msg.sender, refund);
+    }
+
+    // --------------------------------------------------
+    // Lobby deadline
+    // --------------------------------------------------
+
+    /// @notice After the join deadline anyone can settle the lobby: it starts if `minPlayers` joined,
+    ///         otherwise every active player is credited their stake and the game expires.
+    function closeLobby(uint256 gameId) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Open) revert GameNotOpen();
+        if (game.joinDeadline == 0 || block.timestamp <= game.joinDeadline) revert LobbyStillOpen();
+
+        if (game.activePlayers > 0 && game.activePlayers >= game.minPlayers) {
+            _start(gameId, game);
+        } else {
+            game.state = State.Expired;
+            emit GameExpired(gameId, _refundActivePlayers(gameId, game));
+        }
+    }
+
+    // --------------------------------------------------
+    // Expiry: governor missed the deadline, refund everyone
+    // --------------------------------------------------
+
+    function refundExpiredGame(uint256 gameId) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Started) revert GameNotStarted();
+        if (game.resolveDeadline == 0 || block.timestamp <= game.resolveDeadline) revert NotExpired();
+        if (!game.isPlayer[msg.sender] || game.hasForfeit[msg.sender]) revert NotPlayer();
+
+        game.state = State.Expired;
+        emit GameExpired(gameId, _refundActivePlayers(gameId, game));
+    }
+
+    // --------------------------------------------------
+    // Cancel: governor calls the game off, full refunds, no fees
+    // --------------------------------------------------
+
+    /// @notice Abort an Open or Started game that cannot be played and credit every remaining
+    ///         player their full stake. No house or governor fee is taken.
+    /// @dev In council games each call is one governor's vote and shares the resolution vote slot.
+    function cancelGame(uint256 gameId) external nonReentrant onlyGovernor(gameId) {
+        Game storage game = games[gameId];
+
+        if (game.state != State.Open && game.state != State.Started) revert GameNotActive();
+
+        if (game.governors.length > 0) {
+            uint256 votes = _tally(game, msg.sender, CANCEL_OUTCOME);
+            emit CancelVoted(gameId, msg.sender, votes);
+            if (votes < game.governorThreshold) return;
+        }
+
+        game.state = State.Cancelled;
+        emit GameCancelled(gameId, _refundActivePlayers(gameId, game));
+    }
+
+    function _refundActivePlayers(uint256 gameId, Game storage game) internal returns (address[] memory refunded) {
+        uint256 playersLength = game.players.length;
+        refunded = new address[](game.activePlayers);
+        uint256 ri;
+
+        for (uint256 i; i < playersLength; ) {
+            address p = game.players[i];
+            if (!game.hasForfeit[p]) {
+                refunded[ri] = p;
+                // Conceded players already received part of their stake
+                _credit(gameId, game.token, p, game.isLoser[p] ? game.stakeAmount - _concedeRefund(game) : game.stakeAmount);
+                unchecked { ++ri; }
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getGame(uint256 gameId) external view returns (GameInfo memory) {
+        Game storage game = games[gameId];
+        return GameInfo({
+            governor: game.governor,
+            token: game.token,
+            stakeAmount: game.stakeAmount,
+            maxPlayers: game.maxPlayers,
+            minPlayers: game.minPlayers,
+            joinDeadline: game.joinDeadline,
+            activePlayers: game.activePlayers,
+            resolutionTimeout: game.resolutionTimeout,
+            resolveDeadline: game.resolveDeadline,
+            resolvedAt: game.resolvedAt,
+            maxGovernorFeePercentage: game.maxGovernorFeePercentage,
+            houseFeePercentage: game.houseFeePercentage,
+            concedeRefundBps: game.concedeRefundBps,
+            state: game.state,
+            players: game.players,
+            losers: game.losers,
+            whitelist: game.whitelist,
+            forfeited: game.forfeited,
+            payoutSchedule: game.payoutSchedule,
+            governors: game.governors,
+            governorThreshold: game.governorThreshold,
+            whitelistRoot: game.whitelistRoot,
+            teamCount: game.teamCount,
+            maxTeamSize: game.maxTeamSize,
+            playerTeams: game.playerTeams,
+            gameType: game.gameType,
+            metadataURI: game.metadataURI,
+            metadata: game.metadata,
+            governorHooks: game.governorHooks,
+            minGovernorBond: game.minGovernorBond
+        });
+    }
+
+    /// @notice A council governor's current votes: whether they voted to start, and the outcome hash they back.
+    function getVote(uint256 gameId, address governor)
+        external
+        view
+        returns (bool votedStart, bytes32 outcome, uint256 outcomeVotes)
+    {
+        Game storage game = games[gameId];
+        outcome = game.resolutionVote[governor];
+        return (game.votedStart[governor], outcome, game.resolutionVotes[outcome]);
+    }
+
+    function getGames(
+        address governor,
+        bool includeResolved,
+        bool includeOngoing,
+        bool includeNotStarted,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        uint256[] memory temp = new uint256[](limit);
+        uint256 count = 0;
+        bool filterByGovernor = governor != address(0);
+
+        for (uint256 i = offset; i < nextGameId && count < limit; i++) {
+            if (filterByGovernor && !_isGovernor(games[i], governor)) continue;
+
+            State s = games[i].state;
+            bool shouldInclude =
+                (s == State.Open && includeNotStarted) ||
+                (s == State.Started && includeOngoing) ||
+                (s >= State.Resolved && includeResolved);
+
+            if (shouldInclude) {
+                temp[count] = i;
+                count++;
+            }
+        }
+
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = temp[i];
+        }
+
+        return result;
+    }
+
+    /// @notice Games `player` joined (or created), newest first. `total` is the full count for paging.
+    function getGamesByPlayer(address player, uint256 offset, uint256 limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        return _page(playerGames[player], offset, limit);
+    }
+
+    /// @notice Games `governor` governs or sits on the council of, newest first.
+    function getGamesByGovernor(address governor, uint256 offset, uint256 limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        return _page(governorGames[governor], offset, limit);
+    }
+
+    function _page(uint256[] storage list, uint256 offset, uint256 limit)
+        internal
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        total = list.length;
+        if (offset >= total) return (new uint256[](0), total);
+
+        uint256 count = total - offset < limit ? total - offset : limit;
+        ids = new uint256[](count);
+        for (uint256 i; i < count; ) {
+            ids[i] = list[total - 1 - offset - i];
+            unchecked { ++i; }
+        }
+    }
+
+    // --------------------------------------------------
+    // Admin
+    // --------------------------------------------------
+
+    function withdraw(address token) external onlyOwner nonReentrant {
+        uint256 amount = accumulatedHouseFees[token];
+        if (amount == 0) revert NoFeesToWithdraw();
+        accumulatedHouseFees[token] = 0;
+        _transferOut(token, feeRecipient, amount);
+    }
+
+    /// @dev Only affects games created afterwards — existing games keep their snapshot.
+    function setHouseFee(uint256 _houseFeePercentage) external onlyOwner {
+        if (_houseFeePercentage > 100) revert FeeTooHigh();
+        houseFeePercentage = _houseFeePercentage;
+    }
+
+    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+        if (_feeRecipient == address(0)) revert InvalidFeeRecipient();
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientSet(_feeRecipient);
+    }
+
+    /// @notice GovernorBonds that games with a `minGovernorBond` check. address(0) blocks new stakes in those games.
+    function setBondRegistry(address _bondRegistry) external onlyOwner {
+        bondRegistry = _bondRegistry;
+        emit BondRegistrySet(_bondRegistry);
+    }
+
+    /// @notice Lets `host` open hosted games (see {createHostedGame}) and create games for players (`GameEscrow.createGameFor`).
+    ///         Approve only contracts that keep stakes safe.
+    function setHost(address host, bool allowed) external onlyOwner {
+        hosts[host] = allowed;
+        emit HostSet(host, allowed);
+    }
+
+    /// @notice Share of the house fee (bps) paid to `referrer` on the players it brings. 0 removes the referrer.
+    /// @dev Read at resolution, so a new tier applies to every unresolved game.
+    function setReferralTier(address referrer, uint16 bps) external onlyOwner {
+        if (bps > BPS) revert InvalidReferralTier();
+        referralTiers[referrer] = bps;
+        emit ReferralTierSet(referrer, bps);
+    }
+
+    /// @notice Circuit breaker: while paused no games can be created or joined.
+    function setPaused(bool _paused) external onlyOwner {
+        paused = _paused;
+        emit PausedSet(_paused);
+    }
+
+    /// @notice Step one of an ownership handover; `newOwner` must call {acceptOwnership}. Pass address(0) to cancel.
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+/// @notice Governor contracts that enforce a game's rules on-chain. When a game's `governor` reports this interface
+///         through ERC-165 at creation (and no council is set), GameEscrow calls it back as players join and the game
+///         starts, and anyone can settle the game from `computeLosers` with `GameEscrow.resolveByGovernor`.
+///         The governor can still call `resolveGame` and `cancelGame` itself.
+interface IGameGovernor is IERC165 {
+    /// @notice A player joined `gameId`, the creator included. Reverting rejects the join.
+    function onJoin(uint256 gameId, address player) external;
+
+    /// @notice The lobby of `gameId` locked. Reverting blocks the start.
+    function onStart(uint256 gameId) external;
+
+    /// @notice The outcome of `gameId` once the rules decide it. `ready` is false while the game is still being played.
+    ///         An empty `losers` list settles the game as a draw: every active player gets the pot back less fees.
+    function computeLosers(uint256 gameId) external view returns (bool ready, address[] memory losers);
+}
@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./extension.sol";
+
+/// @notice Rolling jackpot next to GameEscrow. Anyone buys entries at `entryPrice` (several per address, each one a
+///         ticket) until the round's `endTime`. The first purchase or `closeRound` after that closes the round and
+///         opens the next one; an empty round just restarts its window. A closed round commits to the hash of a block
+///         `DRAW_DELAY` blocks ahead, and once that block is mined anyone calls `draw` to pick the winning ticket from
+///         it. The winner is credited the pot less the escrow's house fee (snapshot when the round opened), which goes
+///         to the escrow's `feeRecipient`; both withdraw with `claim(token)`.
+///         If nobody draws within 256 blocks the hash is gone. The round is never re-rolled, since a player who saw
+///         they lost could otherwise wait for a fresh draw: `draw` refunds it instead, and every player collects their
+///         entries back in full with {collectRefund}.
+/// @dev    Block proposers can withhold a draw block they don't like, so keep pots well below a block reward.
+contract Jackpot is Payouts {
+    uint64 public constant DRAW_DELAY = 5;  // blocks between closing a round and the block that draws it
+
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views run in its extension
+    address public immutable token;         // address(0) = native ETH
+    uint256 public immutable entryPrice;
+    uint64 public immutable roundDuration;  // seconds a round stays open
+
+    struct Round {
+        uint64 startTime;
+        uint64 endTime;
+        uint64 drawBlock;           // 0 = open, set when the round closes
+        uint8 houseFeePercentage;   // snapshot of the escrow's house fee at opening
+        bool drawn;
+        bool refunded;              // the draw block's hash expired before anyone drew, entries are paid back
+        uint256 entries;
+        uint256 pot;
+        address winner;
+        uint256 prize;              // pot less the house fee, set by the draw
+        bytes32 seed;               // randomness the winning ticket was drawn from
+    }
+
+    struct Purchase {
+        address player;
+        uint256 cumulative;         // entries in the round up to and including this purchase
+    }
+
+    uint256 public currentRound;
+    mapping(uint256 => Round) internal rounds;
+    mapping(uint256 => Purchase[]) internal purchases;                 // roundId => purchases in order
+    mapping(uint256 => mapping(address => uint256)) public entriesOf;  // roundId => player => entries
+    mapping(address => uint256[]) internal playerRounds;              // player => rounds entered
+    mapping(uint256 => mapping(address => bool)) public refundCollected; // roundId => player => refund credited
+
+    constructor(address _escrow, address _token, uint256 _entryPrice, uint64 _roundDuration) {
+        require(_entryPrice > 0 && _roundDuration > 0, "Invalid config");
+        escrow = GameEscrowExtension(_escrow);
+        token = _token;
+        entryPrice = _entryPrice;
+        roundDuration = _roundDuration;
+
+        currentRound = 1;
+        _open(1);
+    }
+
+    event RoundOpened(uint256 indexed roundId, uint64 startTime, uint64 endTime);
+    event EntriesBought(uint256 indexed roundId, address indexed player, uint256 count, uint256 totalEntries);
+    event RoundClosed(uint256 indexed roundId, uint256 entries, uint256 pot, uint64 drawBlock);
+    event RoundRefunded(uint256 indexed roundId, uint256 entries, uint256 pot);
+    event RoundDrawn(uint256 indexed roundId, address indexed winner, uint256 ticket, uint256 prize);
+
+    // --------------------------------------------------
+    // Entries
+    // --------------------------------------------------
+
+    /// @notice Buy `count` entries in the open round for `count * entryPrice` (ETH via `msg.value`, tokens via
+    ///         prior approve). Rolls over to the next round first if the current one has ended.
+    function buyEntries(uint256 count) external payable nonReentrant {
+        require(count > 0, "No entries");
+        uint256 roundId = _rollover();
+        Round storage r = rounds[roundId];
+
+        uint256 cost = count * entryPrice;
+        _collectStake(token, cost);
+
+        if (entriesOf[roundId][msg.sender] == 0) playerRounds[msg.sender].push(roundId);
+        entriesOf[roundId][msg.sender] += count;
+        r.entries += count;
+        r.pot += cost;
+        purchases[roundId].push(Purchase({player: msg.sender, cumulative: r.entries}));
+
+        emit EntriesBought(roundId, msg.sender, count, r.entries);
+    }
+
+    /// @notice Close the current round once it has ended and open the next, so it can be drawn without a purchase.
+    function closeRound() external {
+        require(block.timestamp >= rounds[currentRound].endTime, "Round still open");
+        _rollover();
+    }
+
+    /// @dev Returns the round that takes entries now.
+    function _rollover() internal returns (uint256 roundId) {
+        roundId = currentRound;
+        Round storage r = rounds[roundId];
+        if (block.timestamp < r.endTime) return roundId;
+
+        if (r.entries == 0) {
+            _open(roundId);
+            return roundId;
+        }
+
+        r.drawBlock = uint64(block.number) + DRAW_DELAY;
+        emit RoundClosed(roundId, r.entries, r.pot, r.drawBlock);
+
+        roundId = ++currentRound;
+        _open(roundId);
+    }
+
+    function _open(uint256 roundId) internal {
+        Round storage r = rounds[roundId];
+        r.startTime = uint64(block.timestamp);
+        r.endTime = uint64(block.timestamp) + roundDuration;
+        r.houseFeePercentage = uint8(escrow.houseFeePercentage());
+        emit RoundOpened(roundId, r.startTime, r.endTime);
+    }
+
+    // --------------------------------------------------
+    // Draw (anyone, after the committed block)
+    // --------------------------------------------------
+
+    /// @notice Picks the winner from the draw block's hash, or refunds the round once that hash has expired.
+    function draw(uint256 roundId) external nonReentrant {
+        Round storage r = rounds[roundId];
+        require(r.drawBlock != 0 && !r.drawn && !r.refunded, "Round not drawable");
+        require(block.number > r.drawBlock, "Draw block not mined");
+
+        bytes32 hash = blockhash(r.drawBlock);
+        if (hash == bytes32(0)) {
+            r.refunded = true;
+            emit RoundRefunded(roundId, r.entries, r.pot);
+            return;
+        }
+
+        r.seed = keccak256(abi.encode(hash, roundId));
+        uint256 ticket = uint256(r.seed) % r.entries;
+        uint256 fee = (r.pot * r.houseFeePercentage) / 100;
+
+        r.winner = _ticketOwner(purchases[roundId], ticket);
+        r.prize = r.pot - fee;
+        r.drawn = true;
+
+        emit RoundDrawn(roundId, r.winner, ticket, r.prize);
+        _credit(roundId, token, r.winner, r.prize);
+        _credit(roundId, token, escrow.feeRecipient(), fee);
+    }
+
+    /// @notice Credit `player` the full price of their entries in a refunded round (see {claim}). Callable by anyone.
+    function collectRefund(uint256 roundId, address player) external nonReentrant {
+        require(rounds[roundId].refunded, "Round not refunded");
+        uint256 entries = entriesOf[roundId][player];
+        require(entries > 0, "No entries");
+        require(!refundCollected[roundId][player], "Already collected");
+
+        refundCollected[roundId][player] = true;
+        _credit(roundId, token, player, entries * entryPrice);
+    }
+
+    /// @dev Binary search for the first purchase whose cumulative count passes `ticket` (tickets are 0-based).
+    function _ticketOwner(Purchase[] storage list, uint256 ticket) internal view returns (address) {
+        uint256 low;
+        uint256 high = list.length - 1;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (list[mid].cumulative > ticket) high = mid;
+            else low = mid + 1;
+        }
+        return list[low].player;
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getRound(uint256 roundId) external view returns (Round memory) {
+        return rounds[roundId];
+    }
+
+    /// @notice Round history, newest first (the open round included). `total` is the number of rounds so far.
+    function getRounds(uint256 offset, uint256 limit)
+        external
+        view
+        returns (uint256[] memory ids, Round[] memory list, uint256 total)
+    {
+        total = currentRound;
+        if (offset >= total) return (ids, list, total);
+
+        uint256 count = total - offset < limit ? total - offset : limit;
+        ids = new uint256[](count);
+        list = new Round[](count);
+        for (uint256 i; i < count; ) {
+            ids[i] = total - offset - i;
+            list[i] = rounds[ids[i]];
+            unchecked { ++i; }
+        }
+    }
+
+    /// @notice Rounds `player` bought entries in, newest first. `total` is the full count for paging.
+    function getRoundsByPlayer(address player, uint256 offset, uint256 limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        uint256[] storage entered = playerRounds[player];
+        total = entered.length;
+        if (offset >= total) return (ids, total);
+
+        uint256 count = total - offset < limit ? total - offset : limit;
+        ids = new uint256[](count);
+        for (uint256 i; i < count; ) {
+            ids[i] = entered[total - 1 - offset - i];
+            unchecked { ++i; }
+        }
+    }
+
+    /// @notice Every purchase in a round, in order. Ticket `t` belongs to the first purchase with `cumulative > t`.
+    function getPurchases(uint256 roundId) external view returns (Purchase[] memory) {
+        return purchases[roundId];
+    }
+}
@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @notice Stake collection and pull-based balances shared by GameEscrow and TournamentEscrow.
+abstract contract Payouts is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    mapping(address => mapping(address => uint256)) public claimable; // account => token => amount
+
+    /// @dev `gameId` is the id in the emitting contract (a tournament id for TournamentEscrow).
+    event BalanceCredited(uint256 indexed gameId, address indexed account, address token, uint256 amount);
+    event BalanceClaimed(address indexed account, address indexed token, uint256 amount);
+
+    // --------------------------------------------------
+    // Claims (pull payouts — a reverting recipient only blocks itself)
+    // --------------------------------------------------
+
+    function claim(address token) external nonReentrant {
+        _claim(msg.sender, token);
+    }
+
+    /// @notice Push an account's balance to it, e.g. from a relayer or the governor's frontend.
+    function claimFor(address account, address token) external nonReentrant {
+        _claim(account, token);
+    }
+
+    function _claim(address account, address token) internal {
+        uint256 amount = claimable[account][token];
+        require(amount > 0, "Nothing to claim");
+
+        claimable[account][token] = 0;
+        emit BalanceClaimed(account, token, amount);
+
+        _transferOut(token, account, amount);
+    }
+
+    // --------------------------------------------------
+    // Internal — stake transfers (address(0) = native ETH)
+    // --------------------------------------------------
+
+    function _collectStake(address token, uint256 amount) internal {
+        _collectStakeFrom(msg.sender, token, amount);
+    }
+
+    /// @dev Tokens are pulled from `from`, which differs from the caller for relayed joins. ETH always comes with the call.
+    function _collectStakeFrom(address from, address token, uint256 amount) internal {
+        if (token == address(0)) {
+            require(msg.value == amount, "Incorrect stake");
+            return;
+        }
+
+        require(msg.value == 0, "ETH sent to token game");
+        if (amount == 0) return;
+
+        // Balance delta check rejects fee-on-transfer tokens, which would leave the pot short
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(from, address(this), amount);
+        require(IERC20(token).balanceOf(address(this)) - balanceBefore == amount, "Incorrect stake");
+    }
+
+    function _credit(uint256 gameId, address token, address account, uint256 amount) internal {
+        if (amount == 0) return;
+        claimable[account][token] += amount;
+        emit BalanceCredited(gameId, account, token, amount);
+    }
+
+    function _transferOut(address token, address to, uint256 amount) internal {
+        if (amount == 0) return;
+
+        if (token == address(0)) {
+            (bool ok, ) = to.call{value: amount}("");
+            require(ok, "Transfer failed");
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+}
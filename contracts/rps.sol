@@ -0,0 +1,181 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./extension.sol";
+
+/// @notice Reference IGameGovernor: one round of rock-paper-scissors between two players, played by commit-reveal so
+///         neither sees the other's move first. Create a GameEscrow game with this contract as `governor` and
+///         `maxPlayers` 2 — it starts when the second player joins. Each player commits `moveHash(...)` within
+///         `commitWindow` of the start, and once both have committed, reveals within `revealWindow`. Missing a window
+///         loses; a tie, or both players missing the same window, is a draw. Anyone then settles the escrow with
+///         `GameEscrow.resolveByGovernor`. A game every player conceded has no winner to pay, so it is never ready:
+///         anyone calls `cancelConceded` instead, which credits each player the rest of their stake.
+contract RockPaperScissorsGovernor is IGameGovernor {
+    enum Move { None, Rock, Paper, Scissors }
+
+    struct Round {
+        address[2] players;
+        bytes32[2] commits;
+        Move[2] moves;
+        uint64 commitDeadline;      // 0 = game not started
+        uint64 revealDeadline;      // set once both players committed
+    }
+
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views run in its extension
+    uint64 public immutable commitWindow;   // seconds after the start to commit
+    uint64 public immutable revealWindow;   // seconds after the second commit to reveal
+
+    mapping(uint256 => Round) internal rounds;
+
+    constructor(address _escrow, uint64 _commitWindow, uint64 _revealWindow) {
+        require(_commitWindow > 0 && _revealWindow > 0, "Invalid windows");
+        escrow = GameEscrowExtension(_escrow);
+        commitWindow = _commitWindow;
+        revealWindow = _revealWindow;
+    }
+
+    event MoveCommitted(uint256 indexed gameId, address indexed player);
+    event MoveRevealed(uint256 indexed gameId, address indexed player, Move move);
+
+    modifier onlyEscrow() {
+        require(msg.sender == address(escrow), "Only escrow");
+        _;
+    }
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IGameGovernor).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    // --------------------------------------------------
+    // Escrow callbacks
+    // --------------------------------------------------
+
+    /// @dev Only plain two-player games fit the rules, so anything else is rejected when its creator joins.
+    function onJoin(uint256 gameId, address) external view onlyEscrow {
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+        require(game.maxPlayers == 2 && game.teamCount == 0 && game.payoutSchedule.length == 0, "Needs a 2-player game");
+    }
+
+    /// @dev A lobby closed with a single active player still starts; that round is a draw right away.
+    function onStart(uint256 gameId) external onlyEscrow {
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+        Round storage r = rounds[gameId];
+
+        uint256 seated;
+        for (uint256 i; i < game.players.length; ) {
+            if (!_contains(game.forfeited, game.players[i])) r.players[seated++] = game.players[i];
+            unchecked { ++i; }
+        }
+        r.commitDeadline = uint64(block.timestamp) + commitWindow;
+    }
+
+    // --------------------------------------------------
+    // Moves
+    // --------------------------------------------------
+
+    /// @notice The commitment for `move`. Keep `salt` secret and random until the reveal.
+    function moveHash(uint256 gameId, address player, Move move, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(gameId, player, move, salt));
+    }
+
+    function commit(uint256 gameId, bytes32 commitment) external {
+        Round storage r = rounds[gameId];
+        uint256 seat = _seat(r, msg.sender);
+
+        require(block.timestamp <= r.commitDeadline, "Commit window closed");
+        require(r.commits[seat] == bytes32(0), "Already committed");
+        require(commitment != bytes32(0), "Invalid commitment");
+
+        r.commits[seat] = commitment;
+        if (r.commits[1 - seat] != bytes32(0)) r.revealDeadline = uint64(block.timestamp) + revealWindow;
+
+        emit MoveCommitted(gameId, msg.sender);
+    }
+
+    function reveal(uint256 gameId, Move move, bytes32 salt) external {
+        Round storage r = rounds[gameId];
+        uint256 seat = _seat(r, msg.sender);
+
+        require(r.revealDeadline != 0, "Waiting for commits");
+        require(block.timestamp <= r.revealDeadline, "Reveal window closed");
+        require(r.moves[seat] == Move.None, "Already revealed");
+        require(move != Move.None, "Invalid move");
+        require(moveHash(gameId, msg.sender, move, salt) == r.commits[seat], "Move does not match commitment");
+
+        r.moves[seat] = move;
+        emit MoveRevealed(gameId, msg.sender, move);
+    }
+
+    function _seat(Round storage r, address player) internal view returns (uint256) {
+        require(r.commitDeadline != 0, "Game not started");
+        if (player == r.players[0]) return 0;
+        require(player != address(0) && player == r.players[1], "Not a player");
+        return 1;
+    }
+
+    // --------------------------------------------------
+    // Outcome
+    // --------------------------------------------------
+
+    function computeLosers(uint256 gameId) external view returns (bool ready, address[] memory losers) {
+        Round storage r = rounds[gameId];
+        if (r.commitDeadline == 0) return (false, losers);
+        // Resolving with every player conceded credits the pot to this contract, which can't claim it
+        address[] memory conceded = escrow.getGame(gameId).losers;
+        if (_allConceded(r, conceded)) return (false, losers);
+        if (r.players[1] == address(0)) return (true, losers);
+
+        // Seat 0 wins = 1, seat 1 wins = 2, draw = 0
+        uint256 result;
+        if (r.revealDeadline == 0) {
+            if (block.timestamp <= r.commitDeadline) return (false, losers);
+            if (r.commits[0] != bytes32(0)) result = 1;
+            else if (r.commits[1] != bytes32(0)) result = 2;
+        } else if (r.moves[0] != Move.None && r.moves[1] != Move.None) {
+            // Rock < Paper < Scissors < Rock: the move one step ahead wins
+            result = (uint256(r.moves[0]) + 3 - uint256(r.moves[1])) % 3;
+        } else {
+            if (block.timestamp <= r.revealDeadline) return (false, losers);
+            if (r.moves[0] != Move.None) result = 1;
+            else if (r.moves[1] != Move.None) result = 2;
+        }
+        if (result == 0) return (true, losers);
+
+        // A player who already conceded is a loser in the escrow and must not be listed again. When the round's
+        // winner conceded, listing nobody leaves the other player as the game's only winner.
+        address loser = r.players[result == 1 ? 1 : 0];
+        if (_contains(conceded, loser) || _contains(conceded, r.players[result == 1 ? 0 : 1])) return (true, losers);
+        losers = new address[](1);
+        losers[0] = loser;
+        return (true, losers);
+    }
+
+    /// @notice Cancels a game every player conceded, crediting each the stake they didn't get back on conceding.
+    ///         Callable by anyone.
+    function cancelConceded(uint256 gameId) external {
+        Round storage r = rounds[gameId];
+        require(r.commitDeadline != 0, "Game not started");
+        require(_allConceded(r, escrow.getGame(gameId).losers), "Not every player conceded");
+        escrow.cancelGame(gameId);
+    }
+
+    function _allConceded(Round storage r, address[] memory conceded) internal view returns (bool) {
+        return conceded.length == (r.players[1] == address(0) ? 1 : 2);
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getRound(uint256 gameId) external view returns (Round memory) {
+        return rounds[gameId];
+    }
+
+    function _contains(address[] memory list, address account) internal pure returns (bool) {
+        for (uint256 i; i < list.length; ) {
+            if (list[i] == account) return true;
+            unchecked { ++i; }
+        }
+        return false;
+    }
+}
@@ -0,0 +1,229 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./contract.sol";
+import "./extension.sol";
+
+/// @notice Best-of-N records over GameEscrow games. A series starts from a game whose lobby has locked and follows
+///         rematches — new games with the same governor, token and stake, whitelisted to exactly the same players —
+///         until a player has won `winsNeeded` of them. Stakes stay in each game; this contract only keeps score.
+/// @dev    {rematch} opens the next game through `GameEscrow.createGameFor`, so the escrow owner must approve this
+///         contract with `setHost`. Linking a game created elsewhere with {addGame} needs no approval.
+contract GameSeries is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views run in its extension
+
+    struct Series {
+        address governor;
+        uint8 winsNeeded;
+        address token;
+        uint256 stakeAmount;
+        address[] players;
+        uint256[] gameIds;
+    }
+
+    struct SeriesInfo {
+        address governor;
+        address token;
+        uint256 stakeAmount;
+        uint8 winsNeeded;
+        address[] players;
+        uint256[] gameIds;
+        uint256[] wins;             // wins of players[i] so far
+        address winner;             // first player to reach `winsNeeded`, address(0) while undecided
+    }
+
+    mapping(uint256 => Series) internal series;
+    uint256 public nextSeriesId;
+    mapping(uint256 => uint256) internal gameSeries; // gameId => seriesId + 1, 0 = not in a series
+
+    constructor(address _escrow) {
+        escrow = GameEscrowExtension(_escrow);
+    }
+
+    event SeriesCreated(uint256 indexed seriesId, uint256 indexed gameId, address[] players, uint8 winsNeeded);
+    event SeriesGameAdded(uint256 indexed seriesId, uint256 indexed gameId, uint256 gameNumber);
+
+    /// @notice Start a series from `gameId`. Its non-forfeited players are the series players.
+    function createSeries(uint256 gameId, uint8 winsNeeded) external returns (uint256) {
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+
+        require(game.state != GameEscrowStorage.State.Open, "Game not started");
+        require(winsNeeded > 0, "Invalid wins needed");
+        require(gameSeries[gameId] == 0, "Game already in a series");
+        require(
+            _contains(game.players, msg.sender) || msg.sender == game.governor || _contains(game.governors, msg.sender),
+            "Not a player or governor"
+        );
+
+        uint256 seriesId = nextSeriesId++;
+        Series storage s = series[seriesId];
+
+        s.governor = game.governor;
+        s.winsNeeded = winsNeeded;
+        s.token = game.token;
+        s.stakeAmount = game.stakeAmount;
+        for (uint256 i; i < game.players.length; ) {
+            if (!_contains(game.forfeited, game.players[i])) s.players.push(game.players[i]);
+            unchecked { ++i; }
+        }
+        require(s.players.length >= 2, "Not enough players");
+
+        s.gameIds.push(gameId);
+        gameSeries[gameId] = seriesId + 1;
+
+        emit SeriesCreated(seriesId, gameId, s.players, winsNeeded);
+        return seriesId;
+    }
+
+    /// @notice Link a rematch once the previous game finished. Only a series player or the series governor can link,
+    ///         and only a game whitelisted to exactly the series players (no Merkle root) whose seats are all theirs.
+    function addGame(uint256 seriesId, uint256 gameId) external nonReentrant {
+        Series storage s = series[seriesId];
+
+        require(s.players.length > 0, "Series does not exist");
+        require(_contains(s.players, msg.sender) || msg.sender == s.governor, "Not a player or governor");
+        require(gameSeries[gameId] == 0, "Game already in a series");
+        _checkNext(s);
+
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+        require(game.state == GameEscrowStorage.State.Open || game.state == GameEscrowStorage.State.Started, "Game not active");
+        require(game.governor == s.governor && game.token == s.token && game.stakeAmount == s.stakeAmount, "Terms differ");
+        require(game.whitelistRoot == bytes32(0), "Players differ");
+        require(game.whitelist.length == s.players.length, "Players differ");
+        for (uint256 i; i < s.players.length; ) {
+            require(_contains(game.whitelist, s.players[i]), "Players differ");
+            unchecked { ++i; }
+        }
+        // Open games fill from the whitelist above; a started game must already seat every series player
+        require(game.state == GameEscrowStorage.State.Open || game.players.length == s.players.length, "Players differ");
+
+        _link(seriesId, s, gameId);
+    }
+
+    /// @notice Open and link the next game in one transaction, with the caller (a series player) seated as its creator.
+    ///         The game copies the rules of the previous one and is whitelisted to the series players, who rejoin as usual.
+    ///         The caller's stake comes with the call in ETH series; token series pull it from the caller, who approves
+    ///         this contract instead of the escrow.
+    function rematch(uint256 seriesId) external payable nonReentrant returns (uint256 gameId) {
+        Series storage s = series[seriesId];
+
+        require(s.players.length > 0, "Series does not exist");
+        require(_contains(s.players, msg.sender), "Not a player");
+        _checkNext(s);
+
+        GameEscrowStorage.GameInfo memory previous = escrow.getGame(s.gameIds[s.gameIds.length - 1]);
+        uint8 creatorTeam;
+        for (uint256 i; i < previous.playerTeams.length; ) {
+            if (previous.players[i] == msg.sender) creatorTeam = previous.playerTeams[i];
+            unchecked { ++i; }
+        }
+
+        GameEscrow.GameConfig memory config = GameEscrow.GameConfig({
+            governor: s.governor,
+            token: s.token,
+            stakeAmount: s.stakeAmount,
+            maxPlayers: s.players.length,
+            minPlayers: previous.minPlayers < s.players.length ? previous.minPlayers : s.players.length,
+            joinDeadline: 0,
+            resolutionTimeout: previous.resolutionTimeout,
+            maxGovernorFeePercentage: previous.maxGovernorFeePercentage,
+            concedeRefundBps: previous.concedeRefundBps,
+            payoutSchedule: previous.payoutSchedule,
+            whitelist: s.players,
+            teamCount: previous.teamCount,
+            maxTeamSize: previous.maxTeamSize,
+            creatorTeam: creatorTeam,
+            whitelistRoot: bytes32(0),
+            governors: previous.governors,
+            governorThreshold: previous.governors.length > 0 ? previous.governorThreshold : 0,
+            gameType: previous.gameType,
+            metadataURI: previous.metadataURI,
+            metadata: previous.metadata,
+            referrer: address(0),
+            minGovernorBond: previous.minGovernorBond
+        });
+
+        if (s.token != address(0)) {
+            IERC20(s.token).safeTransferFrom(msg.sender, address(this), s.stakeAmount);
+            IERC20(s.token).forceApprove(address(escrow), s.stakeAmount);
+        }
+        gameId = GameEscrow(address(escrow)).createGameFor{value: msg.value}(msg.sender, config);
+
+        _link(seriesId, s, gameId);
+    }
+
+    /// @dev The next game can only follow a finished one, and none follows once the series is decided.
+    function _checkNext(Series storage s) internal view {
+        (, address winner) = _standings(s);
+        require(winner == address(0), "Series decided");
+
+        GameEscrowStorage.GameInfo memory previous = escrow.getGame(s.gameIds[s.gameIds.length - 1]);
+        require(previous.state >= GameEscrowStorage.State.Resolved, "Previous game not finished");
+    }
+
+    function _link(uint256 seriesId, Series storage s, uint256 gameId) internal {
+        s.gameIds.push(gameId);
+        gameSeries[gameId] = seriesId + 1;
+
+        emit SeriesGameAdded(seriesId, gameId, s.gameIds.length);
+    }
+
+    /// @dev Every non-loser, non-forfeited player of a Resolved game scores a win. Expired and cancelled games score none.
+    function _standings(Series storage s) internal view returns (uint256[] memory wins, address winner) {
+        address[] memory players = s.players;
+        wins = new uint256[](players.length);
+
+        for (uint256 g; g < s.gameIds.length; ) {
+            GameEscrowStorage.GameInfo memory game = escrow.getGame(s.gameIds[g]);
+            if (game.state == GameEscrowStorage.State.Resolved) {
+                for (uint256 i; i < players.length; ) {
+                    address p = players[i];
+                    if (_contains(game.players, p) && !_contains(game.losers, p) && !_contains(game.forfeited, p)) {
+                        wins[i] += 1;
+                        if (winner == address(0) && wins[i] >= s.winsNeeded) winner = p;
+                    }
+                    unchecked { ++i; }
+                }
+            }
+            unchecked { ++g; }
+        }
+    }
+
+    function _contains(address[] memory list, address account) internal pure returns (bool) {
+        for (uint256 i; i < list.length; ) {
+            if (list[i] == account) return true;
+            unchecked { ++i; }
+        }
+        return false;
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getSeries(uint256 seriesId) external view returns (SeriesInfo memory) {
+        Series storage s = series[seriesId];
+        (uint256[] memory wins, address winner) = _standings(s);
+        return SeriesInfo({
+            governor: s.governor,
+            token: s.token,
+            stakeAmount: s.stakeAmount,
+            winsNeeded: s.winsNeeded,
+            players: s.players,
+            gameIds: s.gameIds,
+            wins: wins,
+            winner: winner
+        });
+    }
+
+    /// @notice The series `gameId` belongs to. Reverts if it isn't part of one.
+    function seriesOf(uint256 gameId) external view returns (uint256) {
+        require(gameSeries[gameId] != 0, "Not in a series");
+        return gameSeries[gameId] - 1;
+    }
+}
@@ -1,64 +1,41 @@
-const contractABI = [
+declare const abi: [
   {
     "type": "constructor",
-    "inputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "accumulatedHouseFees",
-    "inputs": [],
-    "outputs": [
+    "inputs": [
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "name": "_escrow",
+        "type": "address",
+        "internalType": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "nonpayable"
   },
   {
     "type": "function",
-    "name": "createGame",
+    "name": "claim",
     "inputs": [
       {
-        "name": "governor",
+        "name": "token",
         "type": "address",
         "internalType": "address"
-      },
-      {
-        "name": "stakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "maxPlayers",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "whitelist",
-        "type": "address[]",
-        "internalType": "address[]"
       }
     ],
-    "outputs": [
-      {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
-      }
-    ],
-    "stateMutability": "payable"
+    "outputs": [],
+    "stateMutability": "nonpayable"
   },
   {
     "type": "function",
-    "name": "forfeitGame",
+    "name": "claimFor",
     "inputs": [
       {
-        "name": "gameId",
-        "type": "uint256",
-        "internalType": "uint256"
+        "name": "account",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "token",
+        "type": "address",
+        "internalType": "address"
       }
     ],
     "outputs": [],
@@ -66,37 +43,22 @@ const contractABI = [
   },
   {
     "type": "function",
-    "name": "games",
+    "name": "claimable",
     "inputs": [
       {
         "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
-      }
-    ],
-    "outputs": [
-      {
-        "name": "governor",
         "type": "address",
         "internalType": "address"
       },
       {
-        "name": "state",
-        "type": "uint8",
-        "internalType": "enum GameEscrow.State"
-      },
-      {
-        "name": "stakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "maxPlayers",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
       {
-        "name": "activePlayers",
+        "name": "",
         "type": "uint256",
         "internalType": "uint256"
       }
@@ -105,130 +67,72 @@ const contractABI = [
   },
   {
     "type": "function",
-    "name": "getGame",
+    "name": "collect",
     "inputs": [
       {
         "name": "gameId",
         "type": "uint256",
         "internalType": "uint256"
+      },
+      {
+        "name": "bettor",
+        "type": "address",
+        "internalType": "address"
       }
     ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "escrow",
+    "inputs": [],
     "outputs": [
       {
         "name": "",
-        "type": "tuple",
-        "internalType": "struct GameEscrow.GameInfo",
-        "components": [
-          {
-            "name": "governor",
-            "type": "address",
-            "internalType": "address"
-          },
-          {
-            "name": "stakeAmount",
-            "type": "uint256",
-            "internalType": "uint256"
-          },
-          {
-            "name": "maxPlayers",
-            "type": "uint256",
-            "internalType": "uint256"
-          },
-          {
-            "name": "activePlayers",
-            "type": "uint256",
-            "internalType": "uint256"
-          },
-          {
-            "name": "state",
-            "type": "uint8",
-            "internalType": "enum GameEscrow.State"
-          },
-          {
-            "name": "players",
-            "type": "address[]",
-            "internalType": "address[]"
-          },
-          {
-            "name": "losers",
-            "type": "address[]",
-            "internalType": "address[]"
-          },
-          {
-            "name": "whitelist",
-            "type": "address[]",
-            "internalType": "address[]"
-          },
-          {
-            "name": "forfeited",
-            "type": "address[]",
-            "internalType": "address[]"
-          }
-        ]
+        "type": "address",
+        "internalType": "contract GameEscrowExtension"
       }
     ],
     "stateMutability": "view"
   },
   {
     "type": "function",
-    "name": "getGames",
+    "name": "getBets",
     "inputs": [
       {
-        "name": "governor",
-        "type": "address",
-        "internalType": "address"
-      },
-      {
-        "name": "includeResolved",
-        "type": "bool",
-        "internalType": "bool"
-      },
-      {
-        "name": "includeOngoing",
-        "type": "bool",
-        "internalType": "bool"
-      },
-      {
-        "name": "includeNotStarted",
-        "type": "bool",
-        "internalType": "bool"
-      },
-      {
-        "name": "offset",
+        "name": "gameId",
         "type": "uint256",
         "internalType": "uint256"
       },
       {
-        "name": "limit",
-        "type": "uint256",
-        "internalType": "uint256"
+        "name": "bettor",
+        "type": "address",
+        "internalType": "address"
       }
     ],
     "outputs": [
       {
-        "name": "",
+        "name": "players",
+        "type": "address[]",
+        "internalType": "address[]"
+      },
+      {
+        "name": "amounts",
         "type": "uint256[]",
         "internalType": "uint256[]"
-      }
-    ],
-    "stateMutability": "view"
-  },
-  {
-    "type": "function",
-    "name": "houseFeePercentage",
-    "inputs": [],
-    "outputs": [
+      },
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "name": "collected",
+        "type": "bool",
+        "internalType": "bool"
       }
     ],
     "stateMutability": "view"
   },
   {
     "type": "function",
-    "name": "joinGame",
+    "name": "getPool",
     "inputs": [
       {
         "name": "gameId",
@@ -236,16 +140,19 @@ const contractABI = [
         "internalType": "uint256"
       }
     ],
-    "outputs": [],
-    "stateMutability": "payable"
-  },
-  {
-    "type": "function",
-    "name": "nextGameId",
-    "inputs": [],
     "outputs": [
       {
-        "name": "",
+        "name": "players",
+        "type": "address[]",
+        "internalType": "address[]"
+      },
+      {
+        "name": "amounts",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "total",
         "type": "uint256",
         "internalType": "uint256"
       }
@@ -254,20 +161,7 @@ const contractABI = [
   },
   {
     "type": "function",
-    "name": "owner",
-    "inputs": [],
-    "outputs": [
-      {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
-      }
-    ],
-    "stateMutability": "view"
-  },
-  {
-    "type": "function",
-    "name": "resolveGame",
+    "name": "placeBet",
     "inputs": [
       {
         "name": "gameId",
@@ -275,55 +169,47 @@ const contractABI = [
         "internalType": "uint256"
       },
       {
-        "name": "losers",
-        "type": "address[]",
-        "internalType": "address[]"
+        "name": "player",
+        "type": "address",
+        "internalType": "address"
       },
       {
-        "name": "governorFeePercentage",
+        "name": "amount",
         "type": "uint256",
         "internalType": "uint256"
       }
     ],
     "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "payable"
   },
   {
-    "type": "function",
-    "name": "setHouseFee",
+    "type": "event",
+    "name": "BalanceClaimed",
     "inputs": [
       {
-        "name": "_houseFeePercentage",
-        "type": "uint256",
-        "internalType": "uint256"
-      }
-    ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "startGame",
-    "inputs": [
+        "name": "account",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
       {
-        "name": "gameId",
+        "name": "token",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
         "type": "uint256",
+        "indexed": false,
         "internalType": "uint256"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "withdraw",
-    "inputs": [],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "anonymous": false
   },
   {
     "type": "event",
-    "name": "GameCreated",
+    "name": "BalanceCredited",
     "inputs": [
       {
         "name": "gameId",
@@ -332,13 +218,19 @@ const contractABI = [
         "internalType": "uint256"
       },
       {
-        "name": "creator",
+        "name": "account",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "token",
         "type": "address",
         "indexed": false,
         "internalType": "address"
       },
       {
-        "name": "stakeAmount",
+        "name": "amount",
         "type": "uint256",
         "indexed": false,
         "internalType": "uint256"
@@ -348,7 +240,7 @@ const contractABI = [
   },
   {
     "type": "event",
-    "name": "GameResolved",
+    "name": "BetCollected",
     "inputs": [
       {
         "name": "gameId",
@@ -357,55 +249,54 @@ const contractABI = [
         "internalType": "uint256"
       },
       {
-        "name": "winners",
-        "type": "address[]",
-        "indexed": false,
-        "internalType": "address[]"
+        "name": "bettor",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
       },
       {
-        "name": "losers",
-        "type": "address[]",
+        "name": "payout",
+        "type": "uint256",
         "indexed": false,
-        "internalType": "address[]"
+        "internalType": "uint256"
       }
     ],
     "anonymous": false
   },
   {
     "type": "event",
-    "name": "GameStarted",
+    "name": "BetPlaced",
     "inputs": [
       {
         "name": "gameId",
         "type": "uint256",
         "indexed": true,
         "internalType": "uint256"
-      }
-    ],
-    "anonymous": false
-  },
-  {
-    "type": "event",
-    "name": "PlayerForfeited",
-    "inputs": [
+      },
       {
-        "name": "gameId",
-        "type": "uint256",
+        "name": "bettor",
+        "type": "address",
         "indexed": true,
-        "internalType": "uint256"
+        "internalType": "address"
       },
       {
         "name": "player",
         "type": "address",
         "indexed": false,
         "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
       }
     ],
     "anonymous": false
   },
   {
     "type": "event",
-    "name": "PlayerJoined",
+    "name": "BetsSettled",
     "inputs": [
       {
         "name": "gameId",
@@ -414,10 +305,22 @@ const contractABI = [
         "internalType": "uint256"
       },
       {
-        "name": "player",
-        "type": "address",
+        "name": "total",
+        "type": "uint256",
         "indexed": false,
-        "internalType": "address"
+        "internalType": "uint256"
+      },
+      {
+        "name": "winningPool",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "refund",
+        "type": "bool",
+        "indexed": false,
+        "internalType": "bool"
       }
     ],
     "anonymous": false
@@ -426,7 +329,18 @@ const contractABI = [
     "type": "error",
     "name": "ReentrancyGuardReentrantCall",
     "inputs": []
+  },
+  {
+    "type": "error",
+    "name": "SafeERC20FailedOperation",
+    "inputs": [
+      {
+        "name": "token",
+        "type": "address",
+        "internalType": "address"
+      }
+    ]
   }
-] as const
+];
 
-export default contractABI;
+export default abi;
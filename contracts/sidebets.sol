@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./extension.sol";
+
+/// @notice Parimutuel spectator bets on GameEscrow games. Bets back one player and are paid in the game's stake token.
+///         Betting stays open while the game is Open or Started and its outcome is still unknown: the first concession,
+///         or an IGameGovernor reporting the outcome ready, closes it. Once the game resolves, bets on winners (players who
+///         are neither losers nor forfeited) share the whole pool pro rata, and the last winning bet collected also
+///         takes the rounding dust. Expired and cancelled games, or games nobody backed a winner in, refund every bet.
+contract SideBets is Payouts {
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views run in its extension
+
+    struct Pool {
+        uint256 total;          // every bet on the game
+        uint256 winningPool;    // bets on winners, set at settlement
+        uint256 collectedWinning; // winning bets collected so far
+        uint256 paid;           // winnings credited so far
+        bool settled;
+        bool refund;            // settled by refunding every bet
+        mapping(address => uint256) onPlayer;     // player => total backing
+        mapping(address => bool) won;            // player => was a winner, set at settlement
+        mapping(address => address[]) backed;    // bettor => players backed, in first-bet order
+        mapping(address => mapping(address => uint256)) bets; // bettor => player => amount
+        mapping(address => bool) collected;
+    }
+
+    mapping(uint256 => Pool) internal pools;
+
+    constructor(address _escrow) {
+        escrow = GameEscrowExtension(_escrow);
+    }
+
+    event BetPlaced(uint256 indexed gameId, address indexed bettor, address player, uint256 amount);
+    event BetsSettled(uint256 indexed gameId, uint256 total, uint256 winningPool, bool refund);
+    event BetCollected(uint256 indexed gameId, address indexed bettor, uint256 payout);
+
+    // --------------------------------------------------
+    // Betting (Open or Started games)
+    // --------------------------------------------------
+
+    /// @notice Back `player` to win `gameId` with `amount` of the game's token (ETH via `msg.value`).
+    ///         Governors decide outcomes and players play them, so neither can bet on their own games.
+    function placeBet(uint256 gameId, address player, uint256 amount) external payable nonReentrant {
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+
+        require(game.governor != address(0), "Game does not exist");
+        require(game.state == GameEscrowStorage.State.Open || game.state == GameEscrowStorage.State.Started, "Betting closed");
+        require(amount > 0, "Empty bet");
+        require(msg.sender != game.governor && !_contains(game.governors, msg.sender), "Governor can't bet");
+        require(!_contains(game.players, msg.sender), "Player can't bet");
+        require(_contains(game.players, player) && !_contains(game.forfeited, player), "Not a player");
+        // Before resolution the losers are players who conceded; once any has, the rest may already be decided
+        require(game.losers.length == 0, "Outcome known");
+        if (game.governorHooks) {
+            (bool ready, ) = IGameGovernor(game.governor).computeLosers(gameId);
+            require(!ready, "Outcome known");
+        }
+
+        _collectStake(game.token, amount);
+
+        Pool storage pool = pools[gameId];
+        if (pool.bets[msg.sender][player] == 0) pool.backed[msg.sender].push(player);
+        pool.bets[msg.sender][player] += amount;
+        pool.onPlayer[player] += amount;
+        pool.total += amount;
+
+        emit BetPlaced(gameId, msg.sender, player, amount);
+    }
+
+    // --------------------------------------------------
+    // Settlement (reads the escrow's outcome, callable by anyone)
+    // --------------------------------------------------
+
+    /// @notice Credit `bettor`'s winnings or refund for a finished game (see {claim}). Settles the pool on first use.
+    /// @dev A bettor who joined the game after betting wins nothing; their share goes to the last winning collect, or
+    ///      to the escrow's fee recipient when that collect is their own.
+    function collect(uint256 gameId, address bettor) external nonReentrant {
+        Pool storage pool = pools[gameId];
+        GameEscrowStorage.GameInfo memory game = escrow.getGame(gameId);
+        if (!pool.settled) _settle(gameId, pool, game);
+
+        address[] storage backed = pool.backed[bettor];
+        require(backed.length > 0, "No bets");
+        require(!pool.collected[bettor], "Already collected");
+        pool.collected[bettor] = true;
+
+        bool joined = _contains(game.players, bettor);
+        uint256 payout;
+        uint256 winning;
+        for (uint256 i; i < backed.length; ) {
+            uint256 amount = pool.bets[bettor][backed[i]];
+            if (pool.refund) {
+                payout += amount;
+            } else if (pool.won[backed[i]]) {
+                winning += amount;
+                if (!joined) payout += (amount * pool.total) / pool.winningPool;
+            }
+            unchecked { ++i; }
+        }
+
+        uint256 remainder;
+        if (winning > 0) {
+            pool.collectedWinning += winning;
+            pool.paid += payout;
+            if (pool.collectedWinning == pool.winningPool) {
+                remainder = pool.total - pool.paid;
+                pool.paid = pool.total;
+            }
+        }
+
+        if (joined) {
+            _credit(gameId, game.token, escrow.feeRecipient(), remainder);
+        } else {
+            payout += remainder;
+        }
+        emit BetCollected(gameId, bettor, payout);
+        _credit(gameId, game.token, bettor, payout);
+    }
+
+    function _settle(uint256 gameId, Pool storage pool, GameEscrowStorage.GameInfo memory game) internal {
+        require(game.state >= GameEscrowStorage.State.Resolved, "Game not finished");
+
+        if (game.state == GameEscrowStorage.State.Resolved) {
+            for (uint256 i; i < game.players.length; ) {
+                address p = game.players[i];
+                if (!_contains(game.losers, p) && !_contains(game.forfeited, p)) {
+                    pool.won[p] = true;
+                    pool.winningPool += pool.onPlayer[p];
+                }
+                unchecked { ++i; }
+            }
+        }
+
+        pool.settled = true;
+        pool.refund = pool.winningPool == 0;
+        emit BetsSettled(gameId, pool.total, pool.winningPool, pool.refund);
+    }
+
+    function _contains(address[] memory list, address account) internal pure returns (bool) {
+        for (uint256 i; i < list.length; ) {
+            if (list[i] == account) return true;
+            unchecked { ++i; }
+        }
+        return false;
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    /// @notice Total backing per player (in `getGame(gameId).players` order) and the whole pool.
+    function getPool(uint256 gameId)
+        external
+        view
+        returns (address[] memory players, uint256[] memory amounts, uint256 total)
+    {
+        Pool storage pool = pools[gameId];
+        players = escrow.getGame(gameId).players;
+        amounts = new uint256[](players.length);
+        for (uint256 i; i < players.length; ) {
+            amounts[i] = pool.onPlayer[players[i]];
+            unchecked { ++i; }
+        }
+        return (players, amounts, pool.total);
+    }
+
+    /// @notice `bettor`'s bets on a game and whether they were already collected.
+    function getBets(uint256 gameId, address bettor)
+        external
+        view
+        returns (address[] memory players, uint256[] memory amounts, bool collected)
+    {
+        Pool storage pool = pools[gameId];
+        players = pool.backed[bettor];
+        amounts = new uint256[](players.length);
+        for (uint256 i; i < players.length; ) {
+            amounts[i] = pool.bets[bettor][players[i]];
+            unchecked { ++i; }
+        }
+        return (players, amounts, pool.collected[bettor]);
+    }
+}
@@ -0,0 +1,360 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./contract.sol";
+import "./extension.sol";
+
+/// @notice Single-elimination tournaments. Players pay one entry fee; the governor reports each bracket match and
+///         winners advance until the final settles the pot. House fee, owner and fee recipient come from the paired GameEscrow.
+/// @dev    Every match is a GameEscrow game. Each round opens one hosted game per pair (`GameEscrow.createHostedGame`,
+///         so the escrow owner must approve this contract with `setHost`), stakeless because the bracket keeps the one
+///         pot until the final. This contract governs the match games: a report resolves the match in the escrow, and a
+///         player who concedes there has lost the match. Cancelling or expiring the tournament cancels unreported matches.
+contract TournamentEscrow is Payouts {
+    modifier onlyGovernor(uint256 tournamentId) {
+        require(tournaments[tournamentId].governor == msg.sender, "Not governor");
+        _;
+    }
+
+    enum State { Open, Started, Resolved, Expired, Cancelled }
+
+    struct Tournament {
+        address governor;           // slot 0
+        State state;                // slot 0
+        uint8 round;                // slot 0 — current round, 0 = first
+        uint8 governorFeePercentage; // slot 0 — committed at creation, paid when the final is reported
+        uint8 houseFeePercentage;   // slot 0 — snapshot at creation
+        uint64 resolveDeadline;     // slot 0 — set at start, 0 = no deadline
+        address token;              // slot 1 — address(0) = native ETH
+        uint64 resolutionTimeout;   // slot 1 — seconds after start to finish the bracket, 0 = never expires
+        uint16 runnerUpBps;         // slot 1 — share of the prize for the losing finalist
+        uint256 entryFee;           // slot 2
+        uint256 size;               // slot 3 — entrants, a power of two
+        address[] players;          // slot 4 — entry order is the seeding: match i = players[2i] vs players[2i + 1]
+        address[] bracket;          // slot 5 — players still in, in current round order
+        address[] winners;          // slot 6 — winners[i] of the current round's match i, address(0) = unreported
+        uint256 reported;           // slot 7 — matches reported in the current round
+        address champion;           // slot 8
+        address runnerUp;           // slot 9
+        mapping(address => bool) isPlayer; // slot 10
+        uint256[] matchGames;       // slot 11 — matchGames[i] is the escrow game of the current round's match i
+    }
+
+    struct TournamentConfig {
+        address governor;
+        address token;              // address(0) = native ETH
+        uint256 entryFee;
+        uint256 size;               // 2, 4, 8 … 128 entrants; the tournament starts once full
+        uint64 resolutionTimeout;   // 0 = never expires
+        uint8 governorFeePercentage;
+        uint16 runnerUpBps;         // bps of the prize for the losing finalist, 0 = winner takes all
+    }
+
+    struct TournamentInfo {
+        address governor;
+        address token;
+        uint256 entryFee;
+        uint256 size;
+        uint64 resolutionTimeout;
+        uint64 resolveDeadline;
+        uint8 governorFeePercentage;
+        uint8 houseFeePercentage;
+        uint16 runnerUpBps;
+        State state;
+        uint8 round;
+        address[] players;
+        address[] bracket;
+        address[] winners;
+        uint256[] matchGames;
+        address champion;
+        address runnerUp;
+    }
+
+    uint256 private constant BPS = 10_000;
+    uint256 private constant MAX_SIZE = 128;
+
+    GameEscrowExtension public immutable escrow;   // the GameEscrow, whose views and hosted games run in its extension
+    mapping(uint256 => Tournament) internal tournaments;
+    uint256 public nextTournamentId;
+    mapping(address => uint256) public accumulatedHouseFees; // token => fees, address(0) = ETH
+    mapping(address => uint256[]) internal governorTournaments; // governor => tournament ids
+
+    constructor(address _escrow) {
+        escrow = GameEscrowExtension(_escrow);
+    }
+
+    event TournamentCreated(uint256 indexed tournamentId, address creator, address governor, address token, uint256 entryFee, uint256 size);
+    event PlayerEntered(uint256 indexed tournamentId, address player);
+    event PlayerWithdrew(uint256 indexed tournamentId, address player);
+    event RoundStarted(uint256 indexed tournamentId, uint256 round, address[] players, uint256[] gameIds);
+    event MatchReported(uint256 indexed tournamentId, uint256 round, uint256 matchIndex, address winner, address loser);
+    event TournamentResolved(uint256 indexed tournamentId, address champion, address runnerUp, uint256 championPrize, uint256 runnerUpPrize);
+    event TournamentExpired(uint256 indexed tournamentId, address[] refunded);
+    event TournamentCancelled(uint256 indexed tournamentId, address[] refunded);
+
+    // --------------------------------------------------
+    // Entry
+    // --------------------------------------------------
+
+    /// @notice Create a tournament and take the first seat in it.
+    function createTournament(TournamentConfig calldata config) external payable nonReentrant returns (uint256) {
+        require(config.governor != address(0), "Invalid governor");
+        require(config.size >= 2 && config.size <= MAX_SIZE && config.size & (config.size - 1) == 0, "Invalid size");
+        require(config.runnerUpBps <= BPS, "Invalid runner-up share");
+
+        uint256 houseFee = escrow.houseFeePercentage();
+        require(houseFee + config.governorFeePercentage <= 100, "Fee overflow");
+
+        uint256 tournamentId = nextTournamentId++;
+        Tournament storage t = tournaments[tournamentId];
+
+        t.governor = config.governor;
+        t.token = config.token;
+        t.entryFee = config.entryFee;
+        t.size = config.size;
+        t.resolutionTimeout = config.resolutionTimeout;
+        t.governorFeePercentage = config.governorFeePercentage;
+        t.runnerUpBps = config.runnerUpBps;
+        t.houseFeePercentage = uint8(houseFee);
+        governorTournaments[config.governor].push(tournamentId);
+
+        emit TournamentCreated(tournamentId, msg.sender, config.governor, config.token, config.entryFee, config.size);
+        _enter(tournamentId, t);
+        return tournamentId;
+    }
+
+    function enter(uint256 tournamentId) external payable nonReentrant {
+        Tournament storage t = tournaments[tournamentId];
+        require(t.governor != address(0), "Tournament does not exist");
+        _enter(tournamentId, t);
+    }
+
+    function _enter(uint256 tournamentId, Tournament storage t) internal {
+        require(t.state == State.Open, "Tournament not open");
+        require(!t.isPlayer[msg.sender], "Already entered");
+
+        _collectStake(t.token, t.entryFee);
+
+        t.players.push(msg.sender);
+        t.isPlayer[msg.sender] = true;
+        emit PlayerEntered(tournamentId, msg.sender);
+
+        // The bracket starts as soon as every seat is taken
+        if (t.players.length == t.size) {
+            t.state = State.Started;
+            if (t.resolutionTimeout > 0) {
+                t.resolveDeadline = uint64(block.timestamp) + t.resolutionTimeout;
+            }
+            _startRound(tournamentId, t, t.players);
+        }
+    }
+
+    /// @notice Leave an Open tournament and get the entry fee back (credited, see {claim}).
+    function withdrawEntry(uint256 tournamentId) external nonReentrant {
+        Tournament storage t = tournaments[tournamentId];
+
+        require(t.state == State.Open, "Tournament not open");
+        require(t.isPlayer[msg.sender], "Not a player");
+
+        // Swap-and-pop keeps seeding in entry order for everyone but the last entrant
+        uint256 last = t.players.length - 1;
+        for (uint256 i; i < last; ) {
+            if (t.players[i] == msg.sender) {
+                t.players[i] = t.players[last];
+                break;
+            }
+            unchecked { ++i; }
+        }
+        t.players.pop();
+        t.isPlayer[msg.sender] = false;
+
+        emit PlayerWithdrew(tournamentId, msg.sender);
+        _credit(tournamentId, t.token, msg.sender, t.entryFee);
+    }
+
+    // --------------------------------------------------
+    // Bracket
+    // --------------------------------------------------
+
+    /// @notice Governor reports the winner of match `matchIndex` (players `bracket[2i]` and `bracket[2i + 1]`) in the
+    ///         current round, which resolves its escrow game. The last report of a round starts the next one; reporting
+    ///         the final settles the pot.
+    function reportMatch(uint256 tournamentId, uint256 matchIndex, address winner)
+        external
+        nonReentrant
+        onlyGovernor(tournamentId)
+    {
+        Tournament storage t = tournaments[tournamentId];
+
+        require(t.state == State.Started, "Tournament not started");
+        require(matchIndex < t.winners.length, "Invalid match");
+        require(t.winners[matchIndex] == address(0), "Match already reported");
+
+        address a = t.bracket[2 * matchIndex];
+        address b = t.bracket[2 * matchIndex + 1];
+        require(winner == a || winner == b, "Winner not in match");
+        address loser = winner == a ? b : a;
+
+        // Concessions are losses in the escrow game already, so a conceded loser isn't listed again.
+        // If both players conceded, whoever the governor picks advances.
+        uint256 gameId = t.matchGames[matchIndex];
+        address[] memory conceded = escrow.getGame(gameId).losers;
+        require(conceded.length != 1 || conceded[0] == loser, "Winner conceded");
+        address[] memory losers = new address[](conceded.length == 0 ? 1 : 0);
+        if (losers.length > 0) losers[0] = loser;
+
+        t.winners[matchIndex] = winner;
+        t.reported += 1;
+        emit MatchReported(tournamentId, t.round, matchIndex, winner, loser);
+        GameEscrow(address(escrow)).resolveGame(gameId, losers, 0);
+
+        if (t.reported < t.winners.length) return;
+
+        if (t.winners.length == 1) {
+            _settle(tournamentId, t, winner, loser);
+        } else {
+            t.round += 1;
+            _startRound(tournamentId, t, t.winners);
+        }
+    }
+
+    function _startRound(uint256 tournamentId, Tournament storage t, address[] memory entrants) internal {
+        uint256 matches = entrants.length / 2;
+        uint256[] memory gameIds = new uint256[](matches);
+        address[] memory pair = new address[](2);
+        for (uint256 i; i < matches; ) {
+            pair[0] = entrants[2 * i];
+            pair[1] = entrants[2 * i + 1];
+            gameIds[i] = escrow.createHostedGame(pair);
+            unchecked { ++i; }
+        }
+
+        t.bracket = entrants;
+        t.winners = new address[](matches);
+        t.matchGames = gameIds;
+        t.reported = 0;
+        emit RoundStarted(tournamentId, t.round, entrants, gameIds);
+    }
+
+    function _settle(uint256 tournamentId, Tournament storage t, address champion, address runnerUp) internal {
+        uint256 totalPrize = t.entryFee * t.size;
+        uint256 houseFee = (totalPrize * t.houseFeePercentage) / 100;
+        uint256 governorFee = (totalPrize * t.governorFeePercentage) / 100;
+        uint256 prize = totalPrize - houseFee - governorFee;
+        uint256 runnerUpPrize = (prize * t.runnerUpBps) / BPS;
+
+        accumulatedHouseFees[t.token] += houseFee;
+
+        t.state = State.Resolved;
+        t.champion = champion;
+        t.runnerUp = runnerUp;
+
+        _credit(tournamentId, t.token, t.governor, governorFee);
+        _credit(tournamentId, t.token, champion, prize - runnerUpPrize);
+        _credit(tournamentId, t.token, runnerUp, runnerUpPrize);
+
+        emit TournamentResolved(tournamentId, champion, runnerUp, prize - runnerUpPrize, runnerUpPrize);
+    }
+
+    // --------------------------------------------------
+    // Expiry and cancel: full refunds, no fees
+    // --------------------------------------------------
+
+    /// @notice Any entrant can refund everyone once the governor misses the resolve deadline.
+    function refundExpiredTournament(uint256 tournamentId) external nonReentrant {
+        Tournament storage t = tournaments[tournamentId];
+
+        require(t.state == State.Started, "Tournament not started");
+        require(t.resolveDeadline != 0 && block.timestamp > t.resolveDeadline, "Not expired");
+        require(t.isPlayer[msg.sender], "Not a player");
+
+        t.state = State.Expired;
+        _cancelMatches(t);
+        emit TournamentExpired(tournamentId, _refundPlayers(tournamentId, t));
+    }
+
+    /// @notice Governor calls off an Open or Started tournament and every entrant gets the entry fee back.
+    function cancelTournament(uint256 tournamentId) external nonReentrant onlyGovernor(tournamentId) {
+        Tournament storage t = tournaments[tournamentId];
+
+        require(t.state == State.Open || t.state == State.Started, "Tournament not active");
+
+        t.state = State.Cancelled;
+        _cancelMatches(t);
+        emit TournamentCancelled(tournamentId, _refundPlayers(tournamentId, t));
+    }
+
+    /// @dev Calls off the escrow games of the current round's unreported matches. Open tournaments have none.
+    function _cancelMatches(Tournament storage t) internal {
+        for (uint256 i; i < t.winners.length; ) {
+            if (t.winners[i] == address(0)) escrow.cancelGame(t.matchGames[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    function _refundPlayers(uint256 tournamentId, Tournament storage t) internal returns (address[] memory refunded) {
+        refunded = t.players;
+        for (uint256 i; i < refunded.length; ) {
+            _credit(tournamentId, t.token, refunded[i], t.entryFee);
+            unchecked { ++i; }
+        }
+    }
+
+    // --------------------------------------------------
+    // Views
+    // --------------------------------------------------
+
+    function getTournament(uint256 tournamentId) external view returns (TournamentInfo memory) {
+        Tournament storage t = tournaments[tournamentId];
+        return TournamentInfo({
+            governor: t.governor,
+            token: t.token,
+            entryFee: t.entryFee,
+            size: t.size,
+            resolutionTimeout: t.resolutionTimeout,
+            resolveDeadline: t.resolveDeadline,
+            governorFeePercentage: t.governorFeePercentage,
+            houseFeePercentage: t.houseFeePercentage,
+            runnerUpBps: t.runnerUpBps,
+            state: t.state,
+            round: t.round,
+            players: t.players,
+            bracket: t.bracket,
+            winners: t.winners,
+            matchGames: t.matchGames,
+            champion: t.champion,
+            runnerUp: t.runnerUp
+        });
+    }
+
+    /// @notice Tournaments `governor` runs, newest first. `total` is the full count for paging.
+    function getTournamentsByGovernor(address governor, uint256 offset, uint256 limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        uint256[] storage list = governorTournaments[governor];
+        total = list.length;
+        if (offset >= total) return (new uint256[](0), total);
+
+        uint256 count = total - offset < limit ? total - offset : limit;
+        ids = new uint256[](count);
+        for (uint256 i; i < count; ) {
+            ids[i] = list[total - 1 - offset - i];
+            unchecked { ++i; }
+        }
+    }
+
+    // --------------------------------------------------
+    // Admin
+    // --------------------------------------------------
+
+    /// @notice The GameEscrow owner withdraws tournament house fees to the escrow's fee recipient.
+    function withdraw(address token) external nonReentrant {
+        require(msg.sender == escrow.owner(), "Not owner");
+        uint256 amount = accumulatedHouseFees[token];
+        require(amount > 0, "No fees to withdraw");
+        accumulatedHouseFees[token] = 0;
+        _transferOut(token, escrow.feeRecipient(), amount);
+    }
+}
@@ -1,107 +1,43 @@
 import { useState, useEffect } from 'react'
-import { createPublicClient, createWalletClient, http, formatEther, custom } from 'viem'
+import { createPublicClient, http, formatEther } from 'viem'
 import { mainnet, sepolia } from 'viem/chains'
-import contractABI from './challengeAbi'
+import contractABI from '@pockit/challenge-protocol/contracts/abi.js'
+import type { RawGameInfo } from '@pockit/challenge-protocol'
 import SinglePage from './components/SinglePage'
 import CoinFlipGame from './components/CoinFlipGame'
+import { switchNetwork } from './contract'
 
 // Chain configurations
 export const CHAINS = {
     mainnet: {
         chain: mainnet,
         contractAddress: '0xcbeb8fbbc2ca9afb908381f24ec4cea493b9482c',
+        sideBetsAddress: undefined as `0x${string}` | undefined,  // SideBets contract, hides the betting panels when unset
+        seriesAddress: undefined as `0x${string}` | undefined,    // GameSeries contract, hides series records when unset
+        bondsAddress: undefined as `0x${string}` | undefined,     // GovernorBonds contract, hides bonds and disputes when unset
+        jackpotAddress: undefined as `0x${string}` | undefined,   // Jackpot contract, hides the jackpot tile when unset
         faucetUrl: undefined,
     },
     sepolia: {
         chain: sepolia,
         contractAddress: '0xA84Ba779A4Caeb2f5Cee0aE83e9f8D28298F1977',
+        sideBetsAddress: undefined as `0x${string}` | undefined,
+        seriesAddress: undefined as `0x${string}` | undefined,
+        bondsAddress: undefined as `0x${string}` | undefined,
+        jackpotAddress: undefined as `0x${string}` | undefined,
         faucetUrl: 'https://sepoliafaucet.com/',
     },
 } as const
 
 export type ChainKey = keyof typeof CHAINS
 
-export interface GameInfo {
-    governor: string
-    stakeAmount: bigint
-    maxPlayers: bigint
-    activePlayers: bigint
-    state: number  // 0 = Open, 1 = Started, 2 = Resolved
-    players: string[]
-    losers: string[]
-    whitelist: string[]
-    forfeited: string[]
-}
+// Raw `getGame` struct as viem decodes it, derived from the escrow ABI shipped with the SDK
+export type GameInfo = RawGameInfo
 
-export interface Game extends GameInfo {
-    id: bigint
-}
+export type Game = GameInfo & { id: bigint }
 
 export { contractABI }
 
-// Wallet utilities
-const createWallet = async (chain: typeof mainnet | typeof sepolia) => {
-    if (!window.ethereum) throw new Error('No wallet found')
-    const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' })
-    return createWalletClient({
-        account: accounts[0] as `0x${string}`,
-        chain: chain,
-        transport: custom(window.ethereum),
-    })
-}
-
-const switchNetwork = async (chain: typeof mainnet | typeof sepolia) => {
-    if (!window.ethereum) return
-    try {
-        await window.ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${chain.id.toString(16)}` }],
-        })
-    } catch (switchError: any) {
-        if (switchError.code === 4902) {
-            await window.ethereum.request({
-                method: 'wallet_addEthereumChain',
-                params: [{
-                    chainId: `0x${chain.id.toString(16)}`,
-                    chainName: chain.name,
-                    nativeCurrency: chain.nativeCurrency,
-                    rpcUrls: chain.rpcUrls.default.http,
-                    blockExplorerUrls: chain.blockExplorers?.default ? [chain.blockExplorers.default.url] : [],
-                }],
-            })
-        } else {
-            throw switchError
-        }
-    }
-}
-
-const ensureCorrectChain = async (chain: typeof mainnet | typeof sepolia) => {
-    if (!window.ethereum) throw new Error('No wallet found')
-    const chainId = await window.ethereum.request({ method: 'eth_chainId' })
-    const expectedChainId = `0x${chain.id.toString(16)}`
-    if (chainId !== expectedChainId) await switchNetwork(chain)
-}
-
-export const writeToContract = async (
-    chainConfig: typeof CHAINS[ChainKey],
-    functionName: string,
-    args: readonly unknown[],
-    value?: bigint
-) => {
-    const chain = chainConfig.chain
-    await ensureCorrectChain(chain)
-    const wallet = await createWallet(chain)
-    return wallet.writeContract({
-        address: chainConfig.contractAddress as `0x${string}`,
-        abi: contractABI,
-        functionName: functionName as any,
-        args: args as any,
-        value: value as bigint,
-        gas: 500_000n,
-        chain: null,
-    } as any)
-}
-
 function App() {
     const [selectedChain, setSelectedChain] = useState<ChainKey>('sepolia')
     const [walletAddress, setWalletAddress] = useState<string>('')
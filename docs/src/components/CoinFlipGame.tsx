@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react'
-import { parseEther } from 'viem'
-import { CHAINS, writeToContract } from '../App'
+import { createPublicClient, encodeFunctionData, http, parseEther, parseEventLogs, stringToHex, zeroAddress, zeroHash } from 'viem'
+import { CHAINS, contractABI } from '../App'
+import { writeToContract } from '../contract'
 import type { ChainKey } from '../App'
 
 type FlipResult = 'heads' | 'tails' | null
@@ -52,34 +53,44 @@ function CoinFlipGame({
         setStatusMsg('Creating game on-chain...')
 
         try {
-            // Create a 1-player game with self as governor
+            // Create a 1-player game with self as governor — it's full on creation, so the escrow starts it right away
             const stakeWei = parseEther(amount)
-            await writeToContract(
+            const hash = await writeToContract(
                 chainConfig,
                 'createGame',
-                [walletAddress as `0x${string}`, stakeWei, 1n, [walletAddress as `0x${string}`]],
+                [{
+                    governor: walletAddress as `0x${string}`,
+                    token: zeroAddress,
+                    stakeAmount: stakeWei,
+                    maxPlayers: 1n,
+                    minPlayers: 0n,
+                    joinDeadline: 0n,
+                    resolutionTimeout: 0n,
+                    maxGovernorFeePercentage: 0,
+                    concedeRefundBps: 0,
+                    payoutSchedule: [],
+                    whitelist: [walletAddress as `0x${string}`],
+                    teamCount: 0,
+                    maxTeamSize: 0,
+                    creatorTeam: 0,
+                    governors: [],
+                    governorThreshold: 0,
+                    whitelistRoot: zeroHash,
+                    gameType: stringToHex('coinflip', { size: 32 }),
+                    metadataURI: '',
+                    metadata: '0x',
+                    referrer: zeroAddress,
+                    minGovernorBond: 0n,
+                }],
                 stakeWei
             )
             setStatusMsg('Waiting for confirmation...')
-            await sleep(2000)
-
-            // We need the game ID — read nextGameId and subtract 1
-            const { createPublicClient, http } = await import('viem')
-            const { contractABI } = await import('../App')
             const client = createPublicClient({ chain: chainConfig.chain, transport: http() })
-            const nextId = await client.readContract({
-                address: chainConfig.contractAddress as `0x${string}`,
-                abi: contractABI,
-                functionName: 'nextGameId' as any,
-            }) as bigint
-            const createdGameId = nextId - 1n
+            const receipt = await client.waitForTransactionReceipt({ hash })
+            const [created] = parseEventLogs({ abi: contractABI, eventName: 'GameCreated', logs: receipt.logs })
+            const createdGameId = created.args.gameId
             setGameId(createdGameId)
 
-            // Start the game
-            setStatusMsg('Starting game...')
-            await writeToContract(chainConfig, 'startGame', [createdGameId])
-            await sleep(1500)
-
             // Now play the coin flip rounds
             setPhase('flipping')
             setStatusMsg('')
@@ -111,10 +122,12 @@ function CoinFlipGame({
             setFinalResult(playerWon ? 'won' : 'lost')
             setPhase('result')
 
-            // Resolve the game on-chain
+            // Resolve the game and, on a win, pull the credited payout back to the wallet in the same transaction
             setStatusMsg('Settling on-chain...')
             const losers: `0x${string}`[] = playerWon ? [] : [walletAddress as `0x${string}`]
-            await writeToContract(chainConfig, 'resolveGame', [createdGameId, losers, 0n])
+            const calls = [encodeFunctionData({ abi: contractABI, functionName: 'resolveGame', args: [createdGameId, losers, 0n] })]
+            if (playerWon) calls.push(encodeFunctionData({ abi: contractABI, functionName: 'claim', args: [zeroAddress] }))
+            await writeToContract(chainConfig, 'multicall', [calls])
             setStatusMsg(playerWon ? '🎉 Winnings sent!' : '💸 Better luck next time!')
 
         } catch (error: any) {
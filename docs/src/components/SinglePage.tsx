@@ -1,22 +1,50 @@
-import { useState, useEffect, useRef } from 'react'
-import { parseEther, formatEther, createPublicClient, http, getAddress } from 'viem'
-import { CHAINS, writeToContract, contractABI } from '../App'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { parseEther, formatEther, createPublicClient, http, getAddress, zeroAddress, zeroHash, hexToString, stringToHex, isAddress } from 'viem'
+import { CHAINS, contractABI } from '../App'
+import { writeToContract, approveToken } from '../contract'
 import type { ChainKey, Game, GameInfo } from '../App'
+import { merkleRoot, merkleProof, parseAddressList } from '../merkle'
+import sideBetsABI from '@pockit/challenge-protocol/contracts/sideBetsAbi.js'
+import seriesABI from '@pockit/challenge-protocol/contracts/seriesAbi.js'
+import bondsABI from '@pockit/challenge-protocol/contracts/bondsAbi.js'
+import jackpotABI from '@pockit/challenge-protocol/contracts/jackpotAbi.js'
 
 const PAGE_SIZE = 50n
 
+// Sites embedding this page link with ?ref=<address> to earn their referral share of the house fee
+const REFERRER = (() => {
+    const ref = new URLSearchParams(window.location.search).get('ref')
+    return ref && isAddress(ref) ? ref : zeroAddress
+})()
+
+// The escrow rejects self-referrals, so the referrer's own wallet plays unreferred
+const referrerFor = (walletAddress: string) => REFERRER.toLowerCase() === walletAddress.toLowerCase() ? zeroAddress : REFERRER
+
 // Game Header Component
-function GameHeader({ gameId, governor, stake, currencySymbol }: {
+function GameHeader({ gameId, governor, stake, token, currencySymbol, governors = [], governorThreshold = 1, gameType = zeroHash }: {
     gameId: bigint
     governor: string
     stake: bigint
+    token: string
     currencySymbol: string
+    governors?: readonly string[]
+    governorThreshold?: number
+    gameType?: `0x${string}`
 }) {
+    const symbol = token === zeroAddress ? currencySymbol : `tokens (${token.slice(0, 6)}...${token.slice(-4)})`
     return (
         <div className="mb-2">
-            <div className="font-heading text-lg text-ink">Game #{gameId.toString()}</div>
+            <div className="font-heading text-lg text-ink">
+                Game #{gameId.toString()}
+                {gameType !== zeroHash && <span className="ml-2 text-xs font-body text-muted">🎲 {hexToString(gameType, { size: 32 })}</span>}
+            </div>
             <small className="text-muted text-xs">Governor: {governor.slice(0, 6)}...{governor.slice(-4)}</small>
-            <div className="text-sm font-bold text-[#f5a623] mt-0.5">Stake: {formatEther(stake)} {currencySymbol}</div>
+            {governors.length > 0 && (
+                <small className="block text-muted text-xs" title={governors.join('\n')}>
+                    🏛️ {governorThreshold}-of-{governors.length} council
+                </small>
+            )}
+            <div className="text-sm font-bold text-[#f5a623] mt-0.5">Stake: {formatEther(stake)} {symbol}</div>
         </div>
     )
 }
@@ -27,36 +55,46 @@ function PlayerRow({
     game,
     walletAddress,
     isSelectedLoser,
+    rank,
     onToggleLoser
 }: {
     player: string;
     game: Game;
     walletAddress: string;
     isSelectedLoser?: boolean;
+    rank?: number;
     onToggleLoser?: (player: string) => void
 }) {
-    const playerInList = (list: string[]) => list.some(p => p.toLowerCase() === player.toLowerCase())
+    const isRanked = game.payoutSchedule.length > 0
+    const playerInList = (list: readonly string[]) => list.some(p => p.toLowerCase() === player.toLowerCase())
     const isLoser = playerInList(game.losers)
     const hasForfeited = playerInList(game.forfeited)
     const isWinner = game.state === 2 && !isLoser && !hasForfeited
     const statusClass = isWinner ? 'text-lime font-bold' : isLoser ? 'text-red font-bold' : hasForfeited ? 'text-muted line-through' : ''
     const statusText = isWinner ? ' (Winner)' : isLoser ? ' (Loser)' : hasForfeited ? ' (Forfeited)' : ''
+    const teamIndex = game.players.findIndex(p => p.toLowerCase() === player.toLowerCase())
+    const team = game.teamCount > 0 ? game.playerTeams[teamIndex] : undefined
 
     return (
         <div className="flex items-center justify-between py-1.5 px-2 rounded-lg odd:bg-[#e3f2fd]/50">
             <span className={`text-sm ${statusClass}`}>
+                {team !== undefined && <span className="mr-1.5 px-1.5 py-0.5 text-xs font-bold rounded-full bg-[#5aace0] text-white">T{team + 1}</span>}
                 {player.slice(0, 6)}...{player.slice(-4)}{statusText}
             </span>
             {game.state === 1 && !isLoser && !hasForfeited && onToggleLoser && (
                 <button
                     onClick={() => onToggleLoser(player)}
                     disabled={!walletAddress}
-                    className={`px-3 py-1 text-xs font-bold rounded-full border-2 cursor-pointer transition-all ${isSelectedLoser
-                            ? 'bg-red text-white border-red'
-                            : 'bg-white text-ink border-[#5aace0] hover:bg-[#e74c3c] hover:text-white hover:border-[#c0392b]'
+                    className={`px-3 py-1 text-xs font-bold rounded-full border-2 cursor-pointer transition-all ${isRanked
+                            ? (isSelectedLoser ? 'bg-[#f5a623] text-white border-[#e65100]' : 'bg-white text-ink border-[#5aace0] hover:bg-[#ffca28]')
+                            : isSelectedLoser
+                                ? 'bg-red text-white border-red'
+                                : 'bg-white text-ink border-[#5aace0] hover:bg-[#e74c3c] hover:text-white hover:border-[#c0392b]'
                         }`}
                 >
-                    {isSelectedLoser ? '✗ Unmark' : 'Mark Loser'}
+                    {isRanked
+                        ? (isSelectedLoser ? `#${rank} ✗` : 'Rank Next')
+                        : (isSelectedLoser ? '✗ Unmark' : 'Mark Loser')}
                 </button>
             )}
         </div>
@@ -78,7 +116,22 @@ function CreateGameTile({
     const [governorAddress, setGovernorAddress] = useState<string>(walletAddress || '')
     const [amount, setAmount] = useState<string>('')
     const [maxPlayers, setMaxPlayers] = useState<string>('')
+    const [minPlayers, setMinPlayers] = useState<string>('')
+    const [joinHours, setJoinHours] = useState<string>('')
     const [whitelistInput, setWhitelistInput] = useState<string>('')
+    const [tokenAddress, setTokenAddress] = useState<string>('')
+    const [timeoutHours, setTimeoutHours] = useState<string>('24')
+    const [maxGovernorFee, setMaxGovernorFee] = useState<string>('5')
+    const [scheduleInput, setScheduleInput] = useState<string>('')
+    const [councilInput, setCouncilInput] = useState<string>('')
+    const [threshold, setThreshold] = useState<string>('')
+    const [inviteListInput, setInviteListInput] = useState<string>('')
+    const [concedeRefund, setConcedeRefund] = useState<string>('')
+    const [teamCount, setTeamCount] = useState<string>('')
+    const [teamSize, setTeamSize] = useState<string>('')
+    const [creatorTeam, setCreatorTeam] = useState<string>('1')
+    const [gameType, setGameType] = useState<string>('')
+    const [metadataURI, setMetadataURI] = useState<string>('')
 
     useEffect(() => {
         if (walletAddress && !governorAddress) {
@@ -91,6 +144,7 @@ function CreateGameTile({
             setGovernorAddress(walletAddress || '')
         } else if (value === 'coinflip') {
             setGovernorAddress(COINFLIP_GOVERNOR)
+            setGameType('coinflip') // the coin flip governor ignores lobbies of other types
         }
     }
 
@@ -102,7 +156,49 @@ function CreateGameTile({
         try {
             const whitelist = whitelistInput.split(',').map(addr => addr.trim()).filter(addr => addr.length > 0).map(addr => addr as `0x${string}`)
             const maxPlayersValue = maxPlayers && !isNaN(Number(maxPlayers)) && parseFloat(maxPlayers) > 0 ? BigInt(Math.floor(parseFloat(maxPlayers))) : 0n
-            await writeToContract(chainConfig, 'createGame', [governorAddress as `0x${string}`, parseEther(amount), maxPlayersValue, whitelist], parseEther(amount))
+            const minPlayersValue = BigInt(parseInt(minPlayers) || 0)
+            // Join window is relative in the form, absolute on-chain
+            const joinDeadline = parseFloat(joinHours) > 0 ? BigInt(Math.floor(Date.now() / 1000 + parseFloat(joinHours) * 3600)) : 0n
+            const token = (tokenAddress.trim() || zeroAddress) as `0x${string}`
+            const stake = parseEther(amount)
+            const resolutionTimeout = BigInt(Math.floor((parseFloat(timeoutHours) || 0) * 3600))
+            const feeCap = Math.min(parseInt(maxGovernorFee) || 0, 100)
+            const concedeRefundBps = Math.min(Math.round((parseFloat(concedeRefund) || 0) * 100), 10000)
+            // Percentages per rank → basis points
+            // Co-governors form an M-of-N council together with the governor above
+            const coGovernors = councilInput.split(',').map(addr => addr.trim()).filter(addr => addr.length > 0)
+            const governors = coGovernors.length > 0
+                ? Array.from(new Set([governorAddress, ...coGovernors].map(addr => getAddress(addr))))
+                : []
+            // Large invite lists are committed as a Merkle root instead of being stored on-chain
+            const inviteList = parseAddressList(inviteListInput)
+            const whitelistRoot = inviteList.length > 0 ? merkleRoot(inviteList) : zeroHash
+            const payoutSchedule = scheduleInput.split(',').map(v => v.trim()).filter(v => v.length > 0).map(v => Math.round(parseFloat(v) * 100))
+            await approveToken(chainConfig, token, stake)
+            await writeToContract(chainConfig, 'createGame', [{
+                governor: governorAddress as `0x${string}`,
+                token,
+                stakeAmount: stake,
+                maxPlayers: maxPlayersValue,
+                minPlayers: minPlayersValue,
+                joinDeadline,
+                resolutionTimeout,
+                maxGovernorFeePercentage: feeCap,
+                concedeRefundBps,
+                teamCount: parseInt(teamCount) || 0,
+                maxTeamSize: parseInt(teamSize) || 0,
+                creatorTeam: parseInt(teamCount) > 0 ? Math.max((parseInt(creatorTeam) || 1) - 1, 0) : 0,
+                payoutSchedule,
+                whitelist,
+                governors,
+                governorThreshold: governors.length > 0 ? Math.min(parseInt(threshold) || governors.length, governors.length) : 0,
+                whitelistRoot,
+                gameType: gameType.trim() ? stringToHex(gameType.trim(), { size: 32 }) : zeroHash,
+                metadataURI: metadataURI.trim(),
+                metadata: '0x',
+                referrer: referrerFor(walletAddress),
+                minGovernorBond: 0n,
+            }], token === zeroAddress ? stake : undefined)
         } catch (error) {
             console.error('Error creating game:', error)
             alert('Failed to create game: ' + (error as Error).message)
@@ -142,6 +238,32 @@ function CreateGameTile({
                 </div>
             </div>
 
+            <div className="mb-4">
+                <label htmlFor="game-type-input" className="block text-sm font-bold mb-1">Game Type / Rules URI (Optional):</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="game-type-input"
+                        placeholder="e.g. coinflip"
+                        maxLength={31}
+                        value={gameType}
+                        onChange={(e) => setGameType(e.target.value)}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                    <input
+                        type="text"
+                        id="rules-uri-input"
+                        placeholder="ipfs://... or https://..."
+                        value={metadataURI}
+                        onChange={(e) => setMetadataURI(e.target.value)}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                </div>
+                <small className="text-muted text-xs mt-1 block">Governors only pick up the game types they run.</small>
+            </div>
+
             <div className="mb-4">
                 <label htmlFor="amount-input" className="block text-sm font-bold mb-1">Amount ({currencySymbol}):</label>
                 <div className="flex gap-2">
@@ -171,6 +293,162 @@ function CreateGameTile({
                 </div>
             </div>
 
+            <div className="mb-4">
+                <label htmlFor="token-input" className="block text-sm font-bold mb-1">Stake Token (Optional):</label>
+                <input
+                    type="text"
+                    id="token-input"
+                    placeholder={`0x... (empty = ${currencySymbol})`}
+                    value={tokenAddress}
+                    onChange={(e) => setTokenAddress(e.target.value)}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block">ERC-20 address for token-denominated games (18 decimals assumed).</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="timeout-input" className="block text-sm font-bold mb-1">Resolve Timeout (hours):</label>
+                <input
+                    type="text"
+                    id="timeout-input"
+                    placeholder="0 = never expires"
+                    value={timeoutHours}
+                    onChange={(e) => setTimeoutHours(e.target.value.replace(/[^0-9.]/g, ''))}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block">If the governor hasn't resolved this long after start, players can reclaim their stakes.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="min-players-input" className="block text-sm font-bold mb-1">Min Players / Join Window (hours):</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="min-players-input"
+                        placeholder="Min players (empty = none)"
+                        value={minPlayers}
+                        onChange={(e) => setMinPlayers(e.target.value.replace(/[^0-9]/g, ''))}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                    <input
+                        type="text"
+                        id="join-window-input"
+                        placeholder="Hours (empty = no deadline)"
+                        value={joinHours}
+                        onChange={(e) => setJoinHours(e.target.value.replace(/[^0-9.]/g, ''))}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                </div>
+                <small className="text-muted text-xs mt-1 block">After the join window anyone can close the lobby: it starts with enough players, otherwise stakes are refunded. A full lobby starts itself.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="fee-cap-input" className="block text-sm font-bold mb-1">Max Governor Fee (%):</label>
+                <input
+                    type="text"
+                    id="fee-cap-input"
+                    placeholder="0"
+                    value={maxGovernorFee}
+                    onChange={(e) => setMaxGovernorFee(e.target.value.replace(/[^0-9]/g, ''))}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block">Fixed at creation — the governor can never charge more than this.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="team-count-input" className="block text-sm font-bold mb-1">Teams (Optional):</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="team-count-input"
+                        placeholder="Teams (empty = free-for-all)"
+                        value={teamCount}
+                        onChange={(e) => setTeamCount(e.target.value.replace(/[^0-9]/g, ''))}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                    <input
+                        type="text"
+                        id="team-size-input"
+                        placeholder="Per team (∞)"
+                        value={teamSize}
+                        onChange={(e) => setTeamSize(e.target.value.replace(/[^0-9]/g, ''))}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                    <input
+                        type="text"
+                        id="creator-team-input"
+                        placeholder="#"
+                        value={creatorTeam}
+                        onChange={(e) => setCreatorTeam(e.target.value.replace(/[^0-9]/g, ''))}
+                        disabled={!walletAddress || !(parseInt(teamCount) > 0)}
+                        title="Your team"
+                        className="w-12 text-center py-2 text-sm border-2 border-[#5aace0] rounded-xl bg-[#eaf6fc] font-bold disabled:opacity-50 focus:outline-none"
+                    />
+                </div>
+                <small className="text-muted text-xs mt-1 block">e.g. 2 teams of 2 for a 2v2. The governor resolves by naming the losing teams.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="concede-refund-input" className="block text-sm font-bold mb-1">Concede Refund (%):</label>
+                <input
+                    type="text"
+                    id="concede-refund-input"
+                    placeholder="0 = conceding forfeits the whole stake"
+                    value={concedeRefund}
+                    onChange={(e) => setConcedeRefund(e.target.value.replace(/[^0-9.]/g, ''))}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block">Share of the stake a player gets back if they give up mid-game.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="schedule-input" className="block text-sm font-bold mb-1">Ranked Payouts (Optional):</label>
+                <input
+                    type="text"
+                    id="schedule-input"
+                    placeholder="50, 30, 20 (% per place, empty = equal split)"
+                    value={scheduleInput}
+                    onChange={(e) => setScheduleInput(e.target.value)}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block">Share of the pot for 1st, 2nd, 3rd... — must be descending and total 100.</small>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="council-input" className="block text-sm font-bold mb-1">Co-Governors (Optional):</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="council-input"
+                        placeholder="0xAddr1, 0xAddr2, ... (empty = governor alone)"
+                        value={councilInput}
+                        onChange={(e) => setCouncilInput(e.target.value)}
+                        disabled={!walletAddress}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                    />
+                    <input
+                        type="text"
+                        id="threshold-input"
+                        placeholder="M"
+                        value={threshold}
+                        onChange={(e) => setThreshold(e.target.value.replace(/[^0-9]/g, ''))}
+                        disabled={!walletAddress}
+                        title="Votes needed (empty = all governors)"
+                        className="w-12 text-center py-2 text-sm border-2 border-[#5aace0] rounded-xl bg-[#eaf6fc] font-bold disabled:opacity-50 focus:outline-none"
+                    />
+                </div>
+                <small className="text-muted text-xs mt-1 block">Start and resolution need M matching votes from the governor + co-governors.</small>
+            </div>
+
             <div className="mb-4">
                 <label htmlFor="whitelist-input" className="block text-sm font-bold mb-1">Whitelist (Optional):</label>
                 <div className="flex gap-2 items-center">
@@ -209,6 +487,30 @@ function CreateGameTile({
                 <small className="text-muted text-xs mt-1 block">Comma-separated addresses for private games. Max players: {maxPlayers || '∞'}</small>
             </div>
 
+            <div className="mb-4">
+                <label htmlFor="invite-list-input" className="block text-sm font-bold mb-1">Large Invite List (Optional):</label>
+                <textarea
+                    id="invite-list-input"
+                    rows={3}
+                    placeholder="Paste addresses, one per line or comma-separated"
+                    value={inviteListInput}
+                    onChange={(e) => setInviteListInput(e.target.value)}
+                    disabled={!walletAddress}
+                    className="w-full px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7] disabled:opacity-50"
+                />
+                <small className="text-muted text-xs mt-1 block break-all">
+                    {(() => {
+                        const list = parseAddressList(inviteListInput)
+                        if (list.length === 0) return 'Only a Merkle root is stored on-chain — share the list with invitees so they can join.'
+                        try {
+                            return `${list.length} addresses · root ${merkleRoot(list)}`
+                        } catch (error) {
+                            return `Invalid list: ${(error as Error).message}`
+                        }
+                    })()}
+                </small>
+            </div>
+
             <button onClick={createGame} disabled={!walletAddress}
                 className="w-full py-2.5 bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white font-bold rounded-full border-3 border-[#558b2f] shadow-[0_4px_0_#33691e] hover:shadow-[0_2px_0_#33691e] hover:translate-y-[2px] active:shadow-none active:translate-y-[4px] transition-all cursor-pointer text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -239,8 +541,40 @@ function JoinGameTile({
         }
     }
 
-    const joinGame = (gameId: bigint, stakeAmount: bigint) =>
-        executeWrite('join game', 'joinGame', [gameId], stakeAmount)
+    // Merkle-whitelisted games: the player pastes the invite list shared by the creator to build a proof
+    const buildProof = (game: Game) => {
+        const onStoredList = game.whitelist.some(p => p.toLowerCase() === walletAddress.toLowerCase())
+        if (game.whitelistRoot === zeroHash || onStoredList) return null
+        const input = prompt('Paste the invite list for this game:')
+        if (!input) return undefined
+        const list = parseAddressList(input)
+        if (merkleRoot(list) !== game.whitelistRoot) throw new Error('Invite list does not match the game\'s whitelist root')
+        return merkleProof(list, walletAddress)
+    }
+
+    const joinGame = async (game: Game, team?: number) => {
+        let proof
+        try {
+            proof = buildProof(game)
+        } catch (error) {
+            alert(`Cannot join: ${(error as Error).message}`)
+            return
+        }
+        if (proof === undefined) return
+        const referrer = referrerFor(walletAddress)
+        const [functionName, args] = referrer !== zeroAddress ? ['joinWithReferrer', [game.id, team ?? 255, proof ?? [], referrer]]
+            : team !== undefined ? ['joinTeam', [game.id, team, proof ?? []]]
+            : proof ? ['joinGameWithProof', [game.id, proof]] : ['joinGame', [game.id]]
+        if (game.token === zeroAddress) return executeWrite('join game', functionName, args, game.stakeAmount)
+        try {
+            await approveToken(chainConfig, game.token, game.stakeAmount)
+        } catch (error) {
+            console.error('Error approving token:', error)
+            alert(`Failed to approve token: ${(error as Error).message}`)
+            return
+        }
+        return executeWrite('join game', functionName, args)
+    }
 
     const forfeitGame = (gameId: bigint) =>
         executeWrite('forfeit game', 'forfeitGame', [gameId])
@@ -252,34 +586,86 @@ function JoinGameTile({
             <div className="space-y-3">
                 {openGames.length > 0 ? (
                     openGames.map((game) => {
-                        const addressInList = (list: string[] | undefined) =>
+                        const addressInList = (list: readonly string[] | undefined) =>
                             walletAddress && list?.some(p => p.toLowerCase() === walletAddress.toLowerCase())
 
                         const isPlayerInGame = addressInList(game.players)
                         const hasForfeited = addressInList(game.forfeited)
-                        const isWhitelisted = !game.whitelist?.length || addressInList(game.whitelist)
+                        // Merkle games can't be checked without the invite list, so let the player try with a proof
+                        const isWhitelisted = game.whitelistRoot !== zeroHash || !game.whitelist?.length || addressInList(game.whitelist)
                         const isFull = game.maxPlayers > 0n && game.players?.length >= Number(game.maxPlayers)
+                        const joinClosed = game.joinDeadline > 0n && BigInt(Math.floor(Date.now() / 1000)) > game.joinDeadline
 
                         return (
                             <div key={game.id.toString()} className="bg-[#eaf6fc] border-2 border-[#5aace0] rounded-xl p-4 shadow-[0_2px_6px_rgba(90,172,224,0.2)]">
-                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} currencySymbol={currencySymbol} />
+                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} token={game.token} currencySymbol={currencySymbol} governors={game.governors} governorThreshold={game.governorThreshold} gameType={game.gameType} />
+                                {chainConfig.bondsAddress && (
+                                    <GovernorBondPanel game={game} walletAddress={walletAddress} currencySymbol={currencySymbol} chainConfig={chainConfig} />
+                                )}
 
                                 <small className="block text-xs text-muted">
                                     Players: {game.players?.length || 0}
                                     {game.maxPlayers > 0n && ` / ${game.maxPlayers.toString()}`}
                                     {(game.forfeited?.length || 0) > 0 && ` (${game.forfeited.length} forfeited)`}
                                 </small>
+                                <small className="block text-xs text-muted">
+                                    Fees: governor up to {game.maxGovernorFeePercentage}% · house {game.houseFeePercentage}%
+                                </small>
+                                {game.payoutSchedule.length > 0 && (
+                                    <small className="block text-xs text-muted">
+                                        🏆 Ranked payouts: {game.payoutSchedule.map(bps => `${bps / 100}%`).join(' / ')}
+                                    </small>
+                                )}
                                 {(game.whitelist?.length || 0) > 0 && <small className="block text-xs text-muted">🔒 Private ({game.whitelist.length} whitelisted)</small>}
+                                {game.whitelistRoot !== zeroHash && <small className="block text-xs text-muted">🔒 Invite list (proof required)</small>}
+                                {game.metadataURI && (
+                                    <small className="block text-xs text-muted">
+                                        📜 <a href={game.metadataURI} target="_blank" rel="noopener noreferrer" className="underline">Rules</a>
+                                    </small>
+                                )}
+                                {(game.minPlayers > 1n || game.joinDeadline > 0n) && (
+                                    <small className="block text-xs text-muted">
+                                        {game.minPlayers > 1n && `Needs ${game.minPlayers.toString()} players`}
+                                        {game.minPlayers > 1n && game.joinDeadline > 0n && ' · '}
+                                        {game.joinDeadline > 0n && `Joins close ${new Date(Number(game.joinDeadline) * 1000).toLocaleString()}`}
+                                    </small>
+                                )}
                                 {isFull && <small className="block text-xs text-red font-bold">🚫 Game Full</small>}
+                                {joinClosed && (
+                                    <button
+                                        onClick={() => executeWrite('close lobby', 'closeLobby', [game.id])}
+                                        disabled={!walletAddress}
+                                        className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                                    >
+                                        {game.activePlayers >= game.minPlayers ? 'Close Lobby & Start' : 'Close Lobby & Refund'}
+                                    </button>
+                                )}
 
-                                {!isPlayerInGame ? (
+                                {!isPlayerInGame && game.teamCount > 0 ? (
+                                    <div className="flex gap-2 mt-2">
+                                        {Array.from({ length: game.teamCount }, (_, team) => {
+                                            const members = game.players.filter((p, i) => game.playerTeams[i] === team && !game.forfeited.includes(p)).length
+                                            const teamFull = game.maxTeamSize > 0 && members >= game.maxTeamSize
+                                            return (
+                                                <button
+                                                    key={team}
+                                                    onClick={() => joinGame(game, team)}
+                                                    disabled={!walletAddress || !isWhitelisted || isFull || joinClosed || teamFull}
+                                                    className="flex-1 py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    Team {team + 1} ({members}{game.maxTeamSize > 0 && `/${game.maxTeamSize}`})
+                                                </button>
+                                            )
+                                        })}
+                                    </div>
+                                ) : !isPlayerInGame ? (
                                     <button
-                                        onClick={() => joinGame(game.id, game.stakeAmount)}
-                                        disabled={!walletAddress || !isWhitelisted || isFull}
-                                        title={isFull ? 'Game is full' : (!isWhitelisted ? 'You are not whitelisted for this game' : '')}
+                                        onClick={() => joinGame(game)}
+                                        disabled={!walletAddress || !isWhitelisted || isFull || joinClosed}
+                                        title={isFull ? 'Game is full' : joinClosed ? 'Join deadline passed' : (!isWhitelisted ? 'You are not whitelisted for this game' : '')}
                                         className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
-                                        {isFull ? '🚫 Full' : (isWhitelisted ? 'Join' : '🔒 Not Whitelisted')}
+                                        {isFull ? '🚫 Full' : joinClosed ? '⌛ Joins Closed' : (isWhitelisted ? 'Join' : '🔒 Not Whitelisted')}
                                     </button>
                                 ) : (
                                     <button
@@ -314,6 +700,15 @@ function GovernGamesTile({
     chainConfig: typeof CHAINS[ChainKey]
 }) {
     const [selectedLosers, setSelectedLosers] = useState<Record<string, Set<string>>>({})
+    const [selectedTeams, setSelectedTeams] = useState<Record<string, number[]>>({})
+
+    const toggleTeam = (gameId: bigint, team: number) => {
+        const key = gameId.toString()
+        setSelectedTeams(prev => {
+            const current = prev[key] || []
+            return { ...prev, [key]: current.includes(team) ? current.filter(t => t !== team) : [...current, team] }
+        })
+    }
 
     const toggleLoser = (gameId: bigint, player: string) => {
         const key = gameId.toString()
@@ -328,21 +723,33 @@ function GovernGamesTile({
         })
     }
 
+    // Governor takes the full fee cap agreed at creation
     const calculatePoolSplit = (game: Game, loserSet: Set<string>) => {
-        const totalPool = game.stakeAmount * BigInt(game.players.length)
-        const governorFee = (totalPool * 5n) / 100n
+        // During play `game.losers` holds players who conceded and already took their refund
+        const concededRefunds = BigInt(game.losers.length) * (game.stakeAmount * BigInt(game.concedeRefundBps) / 10000n)
+        const totalPool = game.stakeAmount * game.activePlayers - concededRefunds
+        const houseFee = (totalPool * BigInt(game.houseFeePercentage)) / 100n
+        const governorFee = (totalPool * BigInt(game.maxGovernorFeePercentage)) / 100n
 
-        const isInList = (player: string, list: string[]) =>
+        const isInList = (player: string, list: readonly string[]) =>
             list.some(p => p.toLowerCase() === player.toLowerCase())
 
         const winnersCount = BigInt(
             game.players.filter(p =>
-                !loserSet.has(p.toLowerCase()) && !isInList(p, game.forfeited)
+                !loserSet.has(p.toLowerCase()) && !isInList(p, game.forfeited) && !isInList(p, game.losers)
             ).length
         )
-        const perWinnerAmount = winnersCount > 0n ? (totalPool - governorFee) / winnersCount : 0n
+        const perWinnerAmount = winnersCount > 0n ? (totalPool - houseFee - governorFee) / winnersCount : 0n
+
+        // Ranked games: selection order is the finishing order, share re-normalized over filled ranks
+        if (game.payoutSchedule.length > 0) {
+            const ranked = game.payoutSchedule.slice(0, loserSet.size)
+            const filledBps = BigInt(ranked.reduce((a, b) => a + b, 0))
+            const firstPlace = filledBps > 0n ? ((totalPool - houseFee - governorFee) * BigInt(ranked[0])) / filledBps : 0n
+            return { totalPool, houseFee, governorFee, winnersCount: BigInt(ranked.length), perWinnerAmount: firstPlace }
+        }
 
-        return { totalPool, governorFee, winnersCount, perWinnerAmount }
+        return { totalPool, houseFee, governorFee, winnersCount, perWinnerAmount }
     }
 
     const executeWrite = async (action: string, functionName: string, args: unknown[], value?: bigint) => {
@@ -357,30 +764,51 @@ function GovernGamesTile({
     const doStartGame = (gameId: bigint) =>
         executeWrite('start game', 'startGame', [gameId])
 
-    const doResolveGame = (gameId: bigint) => {
-        const key = gameId.toString()
-        const losers = Array.from(selectedLosers[key] || []) as `0x${string}`[]
-        executeWrite('resolve game', 'resolveGame', [gameId, losers, 5n])
+    const doCancelGame = (game: Game) => {
+        if (!confirm(`Cancel game #${game.id} and refund every player's full stake?`)) return
+        executeWrite('cancel game', 'cancelGame', [game.id])
+    }
+
+    const doResolveGame = (game: Game) => {
+        const key = game.id.toString()
+        if (game.teamCount > 0) {
+            return executeWrite('resolve game', 'resolveTeams', [game.id, selectedTeams[key] || [], BigInt(game.maxGovernorFeePercentage)])
+        }
+        const selected = Array.from(selectedLosers[key] || []) as `0x${string}`[]
+        if (game.payoutSchedule.length > 0) {
+            // Ranked games: selection order is the ranking, 1st place first
+            return executeWrite('resolve game', 'resolveRanked', [game.id, selected, BigInt(game.maxGovernorFeePercentage)])
+        }
+        // Council votes must match exactly, so use the same canonical loser order as the SDK
+        if (game.governors.length > 0) selected.sort()
+        executeWrite('resolve game', 'resolveGame', [game.id, selected, BigInt(game.maxGovernorFeePercentage)])
     }
 
     return (
         <div className="bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
             <h2 className="font-heading text-xl mb-1 text-[#1a5276]">Govern Games</h2>
-            <p className="text-sm text-muted mb-4">Manage games where you are the governor (5% fee).</p>
+            <p className="text-sm text-muted mb-4">Manage games where you are the governor (fee: each game's agreed cap).</p>
 
             <div className="space-y-3">
                 {ongoingGames.length > 0 ? (
                     ongoingGames.map((game) => {
                         const key = game.id.toString()
-                        const loserSet = selectedLosers[key] || new Set<string>()
+                        const isTeamGame = game.teamCount > 0
+                        const losingTeams = selectedTeams[key] || []
+                        // Team games: the selected teams' members are the losers
+                        const loserSet = isTeamGame
+                            ? new Set(game.players.filter((_, i) => losingTeams.includes(game.playerTeams[i])).map(p => p.toLowerCase()))
+                            : selectedLosers[key] || new Set<string>()
                         const poolSplit = calculatePoolSplit(game, loserSet)
+                        const isRanked = game.payoutSchedule.length > 0
+                        const ranking = Array.from(loserSet)
 
                         return (
                             <div key={key} className="bg-[#eaf6fc] border-2 border-[#5aace0] rounded-xl p-4 shadow-[0_2px_6px_rgba(90,172,224,0.2)]">
-                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} currencySymbol={currencySymbol} />
+                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} token={game.token} currencySymbol={currencySymbol} governors={game.governors} governorThreshold={game.governorThreshold} gameType={game.gameType} />
 
                                 <small className="block text-xs font-bold mb-2">
-                                    {game.state === 2 ? '✓ Resolved' : game.state === 1 ? '⏳ In Progress' : '🟢 Lobby Open'}
+                                    {game.state === 4 ? '✕ Cancelled' : game.state === 3 ? '⌛ Expired' : game.state === 2 ? '✓ Resolved' : game.state === 1 ? '⏳ In Progress' : '🟢 Lobby Open'}
                                 </small>
 
                                 <div className="mb-2">
@@ -393,7 +821,8 @@ function GovernGamesTile({
                                                 game={game}
                                                 walletAddress={walletAddress}
                                                 isSelectedLoser={loserSet.has(p.toLowerCase())}
-                                                onToggleLoser={(player) => toggleLoser(game.id, player)}
+                                                rank={ranking.indexOf(p.toLowerCase()) + 1}
+                                                onToggleLoser={isTeamGame ? undefined : (player) => toggleLoser(game.id, player)}
                                             />
                                         ))
                                     ) : (
@@ -401,31 +830,62 @@ function GovernGamesTile({
                                     )}
                                 </div>
 
+                                {isTeamGame && game.state === 1 && (
+                                    <div className="flex gap-2 mb-3">
+                                        {Array.from({ length: game.teamCount }, (_, team) => (
+                                            <button
+                                                key={team}
+                                                onClick={() => toggleTeam(game.id, team)}
+                                                disabled={!walletAddress}
+                                                className={`flex-1 px-3 py-1 text-xs font-bold rounded-full border-2 cursor-pointer transition-all ${losingTeams.includes(team)
+                                                    ? 'bg-red text-white border-red'
+                                                    : 'bg-white text-ink border-[#5aace0] hover:bg-[#e74c3c] hover:text-white hover:border-[#c0392b]'
+                                                }`}
+                                            >
+                                                {losingTeams.includes(team) ? `✗ Team ${team + 1} lost` : `Team ${team + 1} lost`}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+
                                 {game.state === 1 && (
                                     <div className="bg-[#e3f2fd] border-2 border-[#90caf9] rounded-xl p-3 text-xs space-y-0.5 mb-3">
                                         <strong className="text-sm">Pool Split Preview:</strong>
                                         <div>Total: {formatEther(poolSplit.totalPool)} {currencySymbol}</div>
-                                        <div>Fee (5%): {formatEther(poolSplit.governorFee)} {currencySymbol}</div>
+                                        <div>House ({game.houseFeePercentage}%): {formatEther(poolSplit.houseFee)} {currencySymbol}</div>
+                                        <div>Fee ({game.maxGovernorFeePercentage}%): {formatEther(poolSplit.governorFee)} {currencySymbol}</div>
                                         <div>Winners: {poolSplit.winnersCount.toString()}</div>
-                                        <div className="font-bold">Each: {formatEther(poolSplit.perWinnerAmount)} {currencySymbol}</div>
-                                        <div className="text-muted">Selected losers: {loserSet.size}</div>
+                                        <div className="font-bold">{isRanked ? '1st place' : 'Each'}: {formatEther(poolSplit.perWinnerAmount)} {currencySymbol}</div>
+                                        <div className="text-muted">{isRanked ? `Ranked: ${loserSet.size} / ${game.payoutSchedule.length}` : `Selected losers: ${loserSet.size}`}</div>
                                     </div>
                                 )}
 
                                 {game.players.length >= 1 && (
                                     <>
                                         {game.state === 0 && (
-                                            <button onClick={() => doStartGame(game.id)} disabled={!walletAddress}
+                                            <button onClick={() => doStartGame(game.id)} disabled={!walletAddress || game.activePlayers < game.minPlayers}
                                                 className="w-full py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
                                             >
-                                                Start Game {game.players.length === 1 && '(1P)'}
+                                                {game.governors.length > 0 ? 'Vote Start' : 'Start Game'} {game.players.length === 1 && '(1P)'}
                                             </button>
                                         )}
                                         {game.state === 1 && (
-                                            <button onClick={() => doResolveGame(game.id)} disabled={!walletAddress || (game.players.length > 1 && loserSet.size === 0)}
+                                            <button onClick={() => doResolveGame(game)} disabled={!walletAddress || (game.players.length > 1 && loserSet.size === 0) || (isRanked && loserSet.size > game.payoutSchedule.length)}
                                                 className="w-full py-2 text-sm font-bold bg-gradient-to-b from-[#ffca28] to-[#f5a623] text-[#5d4037] border-2 border-[#e65100] rounded-full shadow-[0_2px_0_#bf360c] hover:shadow-[0_1px_0_#bf360c] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
                                             >
-                                                {game.players.length === 1 ? 'Resolve Game (1P Win)' : `Resolve Game (${loserSet.size} losers)`}
+                                                {game.governors.length > 0 && 'Vote: '}
+                                                {isTeamGame
+                                                    ? `Resolve Teams (${losingTeams.length} lost)`
+                                                    : isRanked
+                                                    ? `Resolve Ranked (${loserSet.size} placed)`
+                                                    : game.players.length === 1 ? 'Resolve Game (1P Win)' : `Resolve Game (${loserSet.size} losers)`}
+                                            </button>
+                                        )}
+                                        {game.state <= 1 && (
+                                            <button onClick={() => doCancelGame(game)} disabled={!walletAddress}
+                                                className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#ef5350] to-[#c62828] text-white border-2 border-[#b71c1c] rounded-full shadow-[0_2px_0_#7f0000] hover:shadow-[0_1px_0_#7f0000] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                                            >
+                                                {game.governors.length > 0 && 'Vote: '}Cancel & Refund
                                             </button>
                                         )}
                                     </>
@@ -457,12 +917,12 @@ function PastGamesTile({
             <div className="space-y-3">
                 {pastGames.length > 0 ? (
                     pastGames.map((game) => {
-                        const inList = (addr: string, list: string[]) =>
+                        const inList = (addr: string, list: readonly string[]) =>
                             list.some(p => p.toLowerCase() === addr.toLowerCase())
-                        const winners = game.players.filter(p => !inList(p, game.losers) && !inList(p, game.forfeited))
+                        const winners = game.state >= 3 ? [] : game.players.filter(p => !inList(p, game.losers) && !inList(p, game.forfeited))
                         return (
                             <div key={game.id.toString()} className="bg-[#eaf6fc] border-2 border-[#5aace0] rounded-xl p-4 shadow-[0_2px_6px_rgba(90,172,224,0.2)]">
-                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} currencySymbol={currencySymbol} />
+                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} token={game.token} currencySymbol={currencySymbol} governors={game.governors} governorThreshold={game.governorThreshold} gameType={game.gameType} />
 
                                 <small className="block text-xs text-muted mb-2">Players: {game.players.length}</small>
 
@@ -480,7 +940,11 @@ function PastGamesTile({
                                     )) : <small className="block text-xs text-muted ml-2">No losers</small>}
                                 </div>
 
-                                <small className="block text-xs font-bold text-lime">Status: Resolved ✓</small>
+                                {game.state === 4
+                                    ? <small className="block text-xs font-bold text-muted">Status: Cancelled — stakes refunded ✕</small>
+                                    : game.state === 3
+                                    ? <small className="block text-xs font-bold text-muted">Status: Expired — stakes refunded ⌛</small>
+                                    : <small className="block text-xs font-bold text-lime">Status: Resolved ✓</small>}
                             </div>
                         )
                     })
@@ -492,88 +956,971 @@ function PastGamesTile({
     )
 }
 
-// Main SinglePage component - wrapper for all tiles with game state management
-function SinglePage({
+// My Games Tile Component — games the wallet joined, from the on-chain player index
+function MyGamesTile({
+    myGames,
     walletAddress,
+    currencySymbol,
     chainConfig,
 }: {
+    myGames: Game[]
     walletAddress: string
+    currencySymbol: string
     chainConfig: typeof CHAINS[ChainKey]
 }) {
-    const [openGames, setOpenGames] = useState<Game[]>([])
-    const [ongoingGames, setOngoingGames] = useState<Game[]>([])
-    const [pastGames, setPastGames] = useState<Game[]>([])
-    const lastProcessedBlockRef = useRef<bigint | null>(null)
-
-    // Create public client for reading contract data
-    const client = createPublicClient({
-        chain: chainConfig.chain,
-        transport: http(),
-    })
-
-    const readContract = async <T,>(functionName: string, args: readonly unknown[] = []): Promise<T> => {
-        return await client.readContract({
-            address: chainConfig.contractAddress as `0x${string}`,
-            abi: contractABI,
-            functionName: functionName as any,
-            args: args as any,
-        }) as T
+    const STATE_LABELS = ['🟢 Lobby Open', '⏳ In Progress', '✓ Resolved', '⌛ Expired', '✕ Cancelled']
+
+    const outcome = (game: Game) => {
+        const inList = (list: readonly string[]) => list.some(p => p.toLowerCase() === walletAddress.toLowerCase())
+        if (inList(game.forfeited)) return { text: 'Forfeited', className: 'text-muted' }
+        if (game.state >= 3) return { text: 'Refunded', className: 'text-muted' }
+        if (game.state !== 2) return null
+        return inList(game.losers) ? { text: 'Lost', className: 'text-red' } : { text: 'Won', className: 'text-lime' }
     }
 
-    const fetchGames = async (functionName: string, args: readonly unknown[]): Promise<Game[]> => {
+    const concede = async (game: Game) => {
+        const refund = (game.stakeAmount * BigInt(game.concedeRefundBps)) / 10000n
+        if (!confirm(`Concede game #${game.id}? You become a loser and get back ${formatEther(refund)}.`)) return
         try {
-            const ids = await readContract<readonly bigint[]>(functionName, args)
-            const games = await Promise.all(
-                ids.map(async (gameId) => {
-                    const gameInfo = await readContract<GameInfo>('getGame', [gameId])
-                    return { id: gameId, ...gameInfo }
-                })
-            )
-            return games
-        } catch (err) {
-            console.error(`Error fetching games (${functionName}):`, err)
-            return []
+            await writeToContract(chainConfig, 'concede', [game.id])
+        } catch (error) {
+            console.error('Error conceding:', error)
+            alert(`Failed to concede: ${(error as Error).message}`)
         }
     }
 
-    const loadAllGames = async () => {
+    // Governor contracts decide the outcome on-chain, so any player can settle once it's ready
+    const settle = async (game: Game) => {
         try {
-            const nextGameId = await readContract<bigint>('nextGameId')
-            const startGame = nextGameId > PAGE_SIZE ? nextGameId - PAGE_SIZE : 0n
-            const normalizedAddress = walletAddress ? getAddress(walletAddress) as `0x${string}` : null
+            await writeToContract(chainConfig, 'resolveByGovernor', [game.id])
+        } catch (error) {
+            console.error('Error settling:', error)
+            alert(`Failed to settle (the governor contract may still be waiting on moves): ${(error as Error).message}`)
+        }
+    }
 
-            // Fetch all open games (no governor filter)
-            const openGamesData = await fetchGames('getGames', ['0x0000000000000000000000000000000000000000', false, false, true, startGame, PAGE_SIZE])
-            setOpenGames(openGamesData)
+    return (
+        <div className="bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <h2 className="font-heading text-xl mb-1 text-[#1a5276]">My Games</h2>
+            <p className="text-sm text-muted mb-4">Games you joined, newest first.</p>
 
-            if (normalizedAddress) {
-                const [governorGamesData, pastGamesData] = await Promise.all([
-                    fetchGames('getGames', [normalizedAddress, false, true, true, 0n, PAGE_SIZE]),
-                    fetchGames('getGames', [normalizedAddress, true, false, false, 0n, PAGE_SIZE])
-                ])
-                setOngoingGames(governorGamesData)
-                setPastGames(pastGamesData)
-            } else {
-                setOngoingGames([])
-                setPastGames([])
+            <div className="space-y-3">
+                {myGames.length > 0 ? (
+                    myGames.map((game) => {
+                        const result = outcome(game)
+                        const inGame = (list: readonly string[]) => list.some(p => p.toLowerCase() === walletAddress.toLowerCase())
+                        const canConcede = game.state === 1 && !inGame(game.losers) && !inGame(game.forfeited)
+                        return (
+                            <div key={game.id.toString()} className="bg-[#eaf6fc] border-2 border-[#5aace0] rounded-xl p-4 shadow-[0_2px_6px_rgba(90,172,224,0.2)]">
+                                <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} token={game.token} currencySymbol={currencySymbol} governors={game.governors} governorThreshold={game.governorThreshold} gameType={game.gameType} />
+                                <small className="block text-xs text-muted">Players: {game.players.length}</small>
+                                <small className="block text-xs font-bold">
+                                    {STATE_LABELS[game.state]}
+                                    {result && <span className={`ml-2 ${result.className}`}>{result.text}</span>}
+                                    {game.state === 1 && inGame(game.losers) && <span className="ml-2 text-red">Conceded</span>}
+                                </small>
+                                {!inGame(game.forfeited) && (
+                                    <SeriesPanel game={game} walletAddress={walletAddress} chainConfig={chainConfig} />
+                                )}
+                                {chainConfig.bondsAddress && (
+                                    <GovernorBondPanel game={game} walletAddress={walletAddress} currencySymbol={currencySymbol} chainConfig={chainConfig} />
+                                )}
+                                {canConcede && (
+                                    <button
+                                        onClick={() => concede(game)}
+                                        className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#ef5350] to-[#c62828] text-white border-2 border-[#b71c1c] rounded-full shadow-[0_2px_0_#7f0000] hover:shadow-[0_1px_0_#7f0000] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                                    >
+                                        Concede ({game.concedeRefundBps / 100}% back)
+                                    </button>
+                                )}
+                                {game.state === 1 && game.governorHooks && (
+                                    <button
+                                        onClick={() => settle(game)}
+                                        className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                                    >
+                                        Settle On-Chain Result
+                                    </button>
+                                )}
+                            </div>
+                        )
+                    })
+                ) : (
+                    <p className="text-center text-muted text-sm py-6">{walletAddress ? "You haven't joined any games yet." : 'Connect a wallet to see your games.'}</p>
+                )}
+            </div>
+        </div>
+    )
+}
+
+// Side Bets Panel — parimutuel spectator bets on one game, paid out from the game's resolve outcome
+function SideBetsPanel({
+    game,
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    game: Game
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    const [pool, setPool] = useState<readonly [readonly string[], readonly bigint[], bigint] | null>(null)
+    const [myBets, setMyBets] = useState<readonly [readonly string[], readonly bigint[], boolean] | null>(null)
+    const [betAmount, setBetAmount] = useState('')
+    const sideBets = { address: chainConfig.sideBetsAddress as string, abi: sideBetsABI }
+
+    const client = useMemo(() => createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    }), [chainConfig.chain])
+
+    const loadBets = useCallback(async () => {
+        try {
+            const address = chainConfig.sideBetsAddress as `0x${string}`
+            setPool(await client.readContract({ address, abi: sideBetsABI, functionName: 'getPool', args: [game.id] }))
+            if (walletAddress) {
+                setMyBets(await client.readContract({ address, abi: sideBetsABI, functionName: 'getBets', args: [game.id, getAddress(walletAddress)] }))
             }
         } catch (err) {
-            console.error('Error loading games:', err)
+            console.error(`Error loading bets for game ${game.id}:`, err)
         }
-    }
+    }, [client, chainConfig.sideBetsAddress, game.id, walletAddress])
 
-    // Initial data load on mount and when wallet/chain changes
-    useEffect(() => {
-        lastProcessedBlockRef.current = null
-        loadAllGames()
-    }, [walletAddress, chainConfig.contractAddress])
-
-    // Event scanning with catch-up mechanism
     useEffect(() => {
-        if (!client) return
+        loadBets()
+    }, [loadBets, game.state])
+
+    const inList = (addr: string, list: readonly string[]) => list.some(p => p.toLowerCase() === addr.toLowerCase())
+    const isGovernor = !!walletAddress && (inList(walletAddress, [game.governor]) || inList(walletAddress, game.governors))
+    const isPlayer = !!walletAddress && inList(walletAddress, game.players)
+    // The first concession closes betting: the remaining players may already have won
+    const bettingOpen = game.state <= 1 && game.losers.length === 0 && !isGovernor && !isPlayer
+    const total = pool?.[2] ?? 0n
+    const myStake = myBets?.[1].reduce((sum, amount) => sum + amount, 0n) ?? 0n
+
+    const placeBet = async (player: string) => {
+        try {
+            const amount = parseEther(betAmount)
+            if (game.token === zeroAddress) {
+                await writeToContract(chainConfig, 'placeBet', [game.id, player, amount], amount, sideBets)
+            } else {
+                await approveToken(chainConfig, game.token, amount, sideBets.address)
+                await writeToContract(chainConfig, 'placeBet', [game.id, player, amount], undefined, sideBets)
+            }
+            setBetAmount('')
+        } catch (error) {
+            console.error('Error placing bet:', error)
+            alert(`Failed to place bet: ${(error as Error).message}`)
+        }
+    }
 
-        const performEventScan = async () => {
-            try {
+    const collect = async () => {
+        try {
+            await writeToContract(chainConfig, 'collect', [game.id, walletAddress], undefined, sideBets)
+            await writeToContract(chainConfig, 'claim', [game.token], undefined, sideBets)
+        } catch (error) {
+            console.error('Error collecting bets:', error)
+            alert(`Failed to collect bets: ${(error as Error).message}`)
+        }
+    }
+
+    if (!pool || (!bettingOpen && total === 0n)) return null
+
+    return (
+        <div className="mt-3 pt-3 border-t-2 border-dashed border-[#5aace0]">
+            <small className="block font-bold text-xs text-[#1a5276] mb-1">🎲 Side Bets · pool {formatEther(total)} {currencySymbol}</small>
+            {pool[0].map((player, i) => {
+                const backing = pool[1][i]
+                const active = !inList(player, game.losers) && !inList(player, game.forfeited)
+                return (
+                    <div key={player} className="flex items-center justify-between gap-2 text-xs">
+                        <span className={active ? '' : 'text-muted line-through'}>{player.slice(0, 6)}...{player.slice(-4)}</span>
+                        <span className="text-muted">
+                            {formatEther(backing)}{backing > 0n && ` (x${(Number(total) / Number(backing)).toFixed(2)})`}
+                        </span>
+                        {bettingOpen && active && (
+                            <button
+                                onClick={() => placeBet(player)}
+                                disabled={!walletAddress || !betAmount}
+                                className="px-3 py-0.5 text-xs font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                            >
+                                Back
+                            </button>
+                        )}
+                    </div>
+                )
+            })}
+            {bettingOpen && (
+                <input
+                    type="text"
+                    value={betAmount}
+                    onChange={(e) => setBetAmount(e.target.value)}
+                    placeholder={`Bet amount (${currencySymbol})`}
+                    className="mt-2 w-full px-3 py-1.5 text-xs border-2 border-[#5aace0] rounded-lg bg-white focus:outline-none focus:border-[#2196f3]"
+                />
+            )}
+            {myStake > 0n && (
+                <small className="block text-xs text-muted mt-1">Your bets: {formatEther(myStake)} {currencySymbol}</small>
+            )}
+            {game.state >= 2 && myStake > 0n && !myBets?.[2] && (
+                <button
+                    onClick={collect}
+                    className="mt-2 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                >
+                    {game.state === 2 ? 'Collect Winnings' : 'Collect Refund'}
+                </button>
+            )}
+        </div>
+    )
+}
+
+// Side Bets Tile Component — recent games spectators can back, and finished ones to collect from
+function SideBetsTile({
+    games,
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    games: Game[]
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    return (
+        <div className="bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <h2 className="font-heading text-xl mb-1 text-[#1a5276]">Side Bets</h2>
+            <p className="text-sm text-muted mb-4">Back a player while a game is open or running. Bets on the winners split the whole pool.</p>
+
+            <div className="space-y-3">
+                {games.length > 0 ? (
+                    games.map((game) => (
+                        <div key={game.id.toString()} className="bg-[#eaf6fc] border-2 border-[#5aace0] rounded-xl p-4 shadow-[0_2px_6px_rgba(90,172,224,0.2)]">
+                            <GameHeader gameId={game.id} governor={game.governor} stake={game.stakeAmount} token={game.token} currencySymbol={currencySymbol} governors={game.governors} governorThreshold={game.governorThreshold} gameType={game.gameType} />
+                            <SideBetsPanel game={game} walletAddress={walletAddress} currencySymbol={currencySymbol} chainConfig={chainConfig} />
+                        </div>
+                    ))
+                ) : (
+                    <p className="text-center text-muted text-sm py-6">No recent games.</p>
+                )}
+            </div>
+        </div>
+    )
+}
+
+// Series Panel — rematch a finished game and track best-of-N records
+function SeriesPanel({
+    game,
+    walletAddress,
+    chainConfig,
+}: {
+    game: Game
+    walletAddress: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    type SeriesRecord = { id: bigint, winsNeeded: number, players: readonly string[], gameIds: readonly bigint[], wins: readonly bigint[], winner: string }
+    const [record, setRecord] = useState<SeriesRecord | null>(null)
+    const seriesAddress = chainConfig.seriesAddress
+
+    const client = useMemo(() => createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    }), [chainConfig.chain])
+
+    const loadSeries = useCallback(async () => {
+        if (!seriesAddress) return
+        try {
+            const id = await client.readContract({ address: seriesAddress, abi: seriesABI, functionName: 'seriesOf', args: [game.id] })
+            const info = await client.readContract({ address: seriesAddress, abi: seriesABI, functionName: 'getSeries', args: [id] })
+            setRecord({ id, ...info })
+        } catch {
+            setRecord(null) // seriesOf reverts for games outside a series
+        }
+    }, [client, seriesAddress, game.id])
+
+    useEffect(() => {
+        loadSeries()
+    }, [loadSeries, game.state])
+
+    const inList = (addr: string, list: readonly string[]) => list.some(p => p.toLowerCase() === addr.toLowerCase())
+    const players = game.players.filter(p => !inList(p, game.forfeited))
+    const seat = game.players.findIndex(p => p.toLowerCase() === walletAddress.toLowerCase())
+    const decided = !!record && record.winner !== zeroAddress
+    const isLatest = !record || record.gameIds[record.gameIds.length - 1] === game.id
+
+    // Same governor(s), stake and rules, whitelisted to this game's players; inside a series the series contract opens and links it
+    const rematch = async () => {
+        try {
+            const value = game.token === zeroAddress ? game.stakeAmount : undefined
+            if (record && seriesAddress) {
+                await approveToken(chainConfig, game.token, game.stakeAmount, seriesAddress)
+                await writeToContract(chainConfig, 'rematch', [record.id], value, { address: seriesAddress, abi: seriesABI })
+                return
+            }
+            await approveToken(chainConfig, game.token, game.stakeAmount)
+            await writeToContract(chainConfig, 'createGame', [{
+                governor: game.governor as `0x${string}`,
+                token: game.token as `0x${string}`,
+                stakeAmount: game.stakeAmount,
+                maxPlayers: BigInt(players.length),
+                minPlayers: game.minPlayers < BigInt(players.length) ? game.minPlayers : BigInt(players.length),
+                joinDeadline: 0n,
+                resolutionTimeout: game.resolutionTimeout,
+                maxGovernorFeePercentage: game.maxGovernorFeePercentage,
+                concedeRefundBps: game.concedeRefundBps,
+                teamCount: game.teamCount,
+                maxTeamSize: game.maxTeamSize,
+                creatorTeam: game.teamCount > 0 ? game.playerTeams[seat] : 0,
+                payoutSchedule: game.payoutSchedule,
+                whitelist: players as `0x${string}`[],
+                governors: game.governors as `0x${string}`[],
+                governorThreshold: game.governors.length > 0 ? game.governorThreshold : 0,
+                whitelistRoot: zeroHash,
+                gameType: game.gameType,
+                metadataURI: game.metadataURI,
+                metadata: game.metadata,
+                referrer: referrerFor(walletAddress),
+                minGovernorBond: game.minGovernorBond,
+            }], value)
+        } catch (error) {
+            console.error('Error creating rematch:', error)
+            alert(`Failed to create rematch: ${(error as Error).message}`)
+        }
+    }
+
+    const startSeries = async (bestOf: number) => {
+        if (!seriesAddress) return
+        try {
+            await writeToContract(chainConfig, 'createSeries', [game.id, Math.ceil(bestOf / 2)], undefined, { address: seriesAddress, abi: seriesABI })
+        } catch (error) {
+            console.error('Error starting series:', error)
+            alert(`Failed to start series: ${(error as Error).message}`)
+        }
+    }
+
+    return (
+        <div className="mt-2">
+            {record && (
+                <div className="text-xs mb-1">
+                    <small className="block font-bold text-[#1a5276]">
+                        🏅 Series #{record.id.toString()} · first to {record.winsNeeded} · game {record.gameIds.findIndex(id => id === game.id) + 1} of {record.gameIds.length}
+                    </small>
+                    {record.players.map((p, i) => (
+                        <small key={p} className={`block ml-2 ${p === record.winner ? 'text-lime font-bold' : ''}`}>
+                            {p.slice(0, 6)}...{p.slice(-4)}: {record.wins[i].toString()} {p === record.winner && '🏆'}
+                        </small>
+                    ))}
+                </div>
+            )}
+            <div className="flex gap-2">
+                {game.state >= 2 && isLatest && !decided && (
+                    <button
+                        onClick={rematch}
+                        className="flex-1 py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                    >
+                        {record ? 'Next Game' : 'Rematch'}
+                    </button>
+                )}
+                {seriesAddress && !record && game.state >= 1 && players.length >= 2 && [3, 5].map(bestOf => (
+                    <button
+                        key={bestOf}
+                        onClick={() => startSeries(bestOf)}
+                        className="flex-1 py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                    >
+                        Best of {bestOf}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+// Governor Bond Panel — what the game's governor has at stake, its slash record, and disputes while the challenge window is open
+function GovernorBondPanel({
+    game,
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    game: Game
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    type BondRecord = { amount: bigint, pendingWithdrawal: bigint, slashes: readonly { gameId: bigint, amount: bigint, reason: string }[] }
+    const [bond, setBond] = useState<BondRecord | null>(null)
+    const [dispute, setDispute] = useState<{ challengeWindow: bigint, disputedBy: string, ruled: boolean } | null>(null)
+    const bondsAddress = chainConfig.bondsAddress
+
+    const client = useMemo(() => createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    }), [chainConfig.chain])
+
+    const loadBond = useCallback(async () => {
+        if (!bondsAddress) return
+        try {
+            const governor = getAddress(game.governor)
+            const [info, slashes] = await Promise.all([
+                client.readContract({ address: bondsAddress, abi: bondsABI, functionName: 'getBond', args: [governor] }),
+                client.readContract({ address: bondsAddress, abi: bondsABI, functionName: 'getSlashes', args: [governor] }),
+            ])
+            setBond({ amount: info.amount, pendingWithdrawal: info.pendingWithdrawal, slashes })
+            if (game.state === 2 && game.resolvedAt > 0n) {
+                const [challengeWindow, disputedBy, ruled] = await Promise.all([
+                    client.readContract({ address: bondsAddress, abi: bondsABI, functionName: 'challengeWindow' }),
+                    client.readContract({ address: bondsAddress, abi: bondsABI, functionName: 'disputedBy', args: [game.id] }),
+                    client.readContract({ address: bondsAddress, abi: bondsABI, functionName: 'ruled', args: [game.id] }),
+                ])
+                setDispute({ challengeWindow, disputedBy, ruled })
+            }
+        } catch (err) {
+            console.error(`Error loading bond of ${game.governor}:`, err)
+        }
+    }, [client, bondsAddress, game.id, game.state, game.governor, game.resolvedAt])
+
+    useEffect(() => {
+        loadBond()
+    }, [loadBond])
+
+    const inList = (list: readonly string[]) => list.some(p => p.toLowerCase() === walletAddress.toLowerCase())
+    const windowOpen = dispute && !dispute.ruled && BigInt(Math.floor(Date.now() / 1000)) <= game.resolvedAt + dispute.challengeWindow
+    const canDispute = walletAddress && windowOpen && dispute.disputedBy === zeroAddress && inList(game.players) && !inList(game.forfeited)
+
+    const fileDispute = async () => {
+        if (!bondsAddress || !confirm(`Dispute the resolution of game #${game.id}? The arbiter reviews it and can slash the governor's bond.`)) return
+        try {
+            await writeToContract(chainConfig, 'dispute', [game.id], undefined, { address: bondsAddress, abi: bondsABI })
+            await loadBond()
+        } catch (error) {
+            console.error('Error disputing:', error)
+            alert(`Failed to dispute: ${(error as Error).message}`)
+        }
+    }
+
+    if (!bond) return null
+    return (
+        <div className="mt-1 text-xs">
+            <small className={`block font-bold ${bond.amount > 0n ? 'text-[#1a5276]' : 'text-muted'}`}>
+                🛡️ {bond.amount > 0n ? `Governor bond: ${formatEther(bond.amount)} ${currencySymbol}` : 'Governor has no bond'}
+                {bond.pendingWithdrawal > 0n && ` (${formatEther(bond.pendingWithdrawal)} unbonding)`}
+            </small>
+            {game.minGovernorBond > 0n && (
+                <small className={`block ${bond.amount - bond.pendingWithdrawal < game.minGovernorBond ? 'text-red' : 'text-muted'}`}>
+                    Joining needs a {formatEther(game.minGovernorBond)} {currencySymbol} bond
+                    {bond.amount - bond.pendingWithdrawal < game.minGovernorBond && ' — not covered, joins revert'}
+                </small>
+            )}
+            {bond.slashes.length > 0 && (
+                <small className="block text-red" title={bond.slashes.map(s => `#${s.gameId}: ${formatEther(s.amount)} — ${s.reason}`).join('\n')}>
+                    ⚠️ Slashed {bond.slashes.length}× for unfair resolutions
+                </small>
+            )}
+            {dispute && dispute.disputedBy !== zeroAddress && (
+                <small className="block text-muted">{dispute.ruled ? 'Dispute ruled on' : '⚖️ Disputed — waiting for the arbiter'}</small>
+            )}
+            {canDispute && (
+                <button
+                    onClick={fileDispute}
+                    className="mt-1 w-full py-2 text-sm font-bold bg-gradient-to-b from-[#ffee58] to-[#f5c842] text-ink border-2 border-[#f9a825] rounded-full shadow-[0_2px_0_#f57f17] hover:shadow-[0_1px_0_#f57f17] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+                >
+                    Dispute Resolution
+                </button>
+            )}
+        </div>
+    )
+}
+
+// Bonds Tile Component — a governor's own bond, and compensation credited to players from slashed bonds
+function BondsTile({
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    type MyBond = { amount: bigint, pendingWithdrawal: bigint, withdrawableAt: bigint, openDisputes: number, slashedTotal: bigint }
+    const [bond, setBond] = useState<MyBond | null>(null)
+    const [slashes, setSlashes] = useState<readonly { gameId: bigint, amount: bigint, timestamp: bigint, reason: string }[]>([])
+    const [compensation, setCompensation] = useState<bigint>(0n)
+    const [amount, setAmount] = useState('')
+    const bonds = { address: chainConfig.bondsAddress as string, abi: bondsABI }
+
+    const client = useMemo(() => createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    }), [chainConfig.chain])
+
+    const loadBond = useCallback(async () => {
+        if (!walletAddress) return
+        try {
+            const address = chainConfig.bondsAddress as `0x${string}`
+            const account = getAddress(walletAddress)
+            const [info, history, claimable] = await Promise.all([
+                client.readContract({ address, abi: bondsABI, functionName: 'getBond', args: [account] }),
+                client.readContract({ address, abi: bondsABI, functionName: 'getSlashes', args: [account] }),
+                client.readContract({ address, abi: bondsABI, functionName: 'claimable', args: [account, zeroAddress] }),
+            ])
+            setBond(info)
+            setSlashes(history)
+            setCompensation(claimable)
+        } catch (err) {
+            console.error('Error loading bond:', err)
+        }
+    }, [client, walletAddress, chainConfig.bondsAddress])
+
+    useEffect(() => {
+        loadBond()
+    }, [loadBond])
+
+    const executeWrite = async (action: string, functionName: string, args: unknown[], value?: bigint) => {
+        try {
+            await writeToContract(chainConfig, functionName, args, value, bonds)
+            await loadBond()
+        } catch (error) {
+            console.error(`Error ${action}:`, error)
+            alert(`Failed to ${action}: ${(error as Error).message}`)
+        }
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    const inputClass = "flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7]"
+    const buttonClass = "px-4 py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+
+    return (
+        <div className="bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <h2 className="font-heading text-xl mb-1 text-[#1a5276]">Governor Bond</h2>
+            <p className="text-sm text-muted mb-4">Players see your bond on every game you govern. An arbiter can slash it to compensate players for an unfair resolution.</p>
+
+            {bond && (
+                <div className="text-xs mb-3">
+                    <small className="block font-bold text-[#f5a623] text-sm">Bonded: {formatEther(bond.amount)} {currencySymbol}</small>
+                    {bond.pendingWithdrawal > 0n && (
+                        <small className="block text-muted">
+                            {formatEther(bond.pendingWithdrawal)} unbonding until {new Date(Number(bond.withdrawableAt) * 1000).toLocaleString()}
+                        </small>
+                    )}
+                    {bond.openDisputes > 0 && <small className="block text-red">⚖️ {bond.openDisputes} open dispute(s) — withdrawals wait for the arbiter</small>}
+                    {bond.slashedTotal > 0n && <small className="block text-red">Slashed to date: {formatEther(bond.slashedTotal)} {currencySymbol}</small>}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <div className="flex gap-2">
+                    <input type="text" placeholder={`Amount (${currencySymbol})`} value={amount} onChange={(e) => setAmount(e.target.value.replace(/[^0-9.]/g, ''))} className={inputClass} />
+                    <button onClick={() => executeWrite('post bond', 'postBond', [], parseEther(amount))} disabled={!walletAddress || !amount} className={buttonClass}>Post</button>
+                    <button onClick={() => executeWrite('request withdrawal', 'requestWithdrawal', [parseEther(amount)])} disabled={!walletAddress || !amount || !bond?.amount} className={buttonClass}>Unbond</button>
+                </div>
+                {bond && bond.pendingWithdrawal > 0n && (
+                    <button onClick={() => executeWrite('withdraw bond', 'withdrawBond', [])} disabled={now < bond.withdrawableAt || bond.openDisputes > 0} className={`${buttonClass} w-full`}>
+                        Withdraw {formatEther(bond.pendingWithdrawal)} {currencySymbol}
+                    </button>
+                )}
+                {compensation > 0n && (
+                    <button onClick={() => executeWrite('claim compensation', 'claim', [zeroAddress])} className={`${buttonClass} w-full`}>
+                        Claim {formatEther(compensation)} {currencySymbol} compensation
+                    </button>
+                )}
+            </div>
+
+            {slashes.length > 0 && (
+                <div className="mt-3">
+                    <small className="block text-xs font-bold text-[#1a5276]">Slash history</small>
+                    {slashes.map((s, i) => (
+                        <small key={i} className="block text-xs text-muted">
+                            Game #{s.gameId.toString()} · {formatEther(s.amount)} {currencySymbol} · {new Date(Number(s.timestamp) * 1000).toLocaleDateString()} — {s.reason}
+                        </small>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Jackpot Tile Component — rolling lottery rounds, drawn from a committed block hash
+function JackpotTile({
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    type JackpotRound = { startTime: bigint, endTime: bigint, drawBlock: bigint, drawn: boolean, refunded: boolean, entries: bigint, pot: bigint, winner: string, prize: bigint }
+    const [config, setConfig] = useState<{ token: string, entryPrice: bigint, roundId: bigint } | null>(null)
+    const [history, setHistory] = useState<{ id: bigint, round: JackpotRound }[]>([])
+    const [myEntries, setMyEntries] = useState<bigint>(0n)
+    const [winnings, setWinnings] = useState<bigint>(0n)
+    const [blockNumber, setBlockNumber] = useState<bigint>(0n)
+    const [count, setCount] = useState('1')
+    const jackpot = { address: chainConfig.jackpotAddress as string, abi: jackpotABI }
+
+    const client = useMemo(() => createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    }), [chainConfig.chain])
+
+    const loadJackpot = useCallback(async () => {
+        try {
+            const address = chainConfig.jackpotAddress as `0x${string}`
+            const [token, entryPrice, roundId, [ids, rounds], block] = await Promise.all([
+                client.readContract({ address, abi: jackpotABI, functionName: 'token' }),
+                client.readContract({ address, abi: jackpotABI, functionName: 'entryPrice' }),
+                client.readContract({ address, abi: jackpotABI, functionName: 'currentRound' }),
+                client.readContract({ address, abi: jackpotABI, functionName: 'getRounds', args: [0n, 5n] }),
+                client.getBlockNumber(),
+            ])
+            setConfig({ token, entryPrice, roundId })
+            setHistory(ids.map((id, i) => ({ id, round: rounds[i] })))
+            setBlockNumber(block)
+            if (walletAddress) {
+                const account = getAddress(walletAddress)
+                const [entries, claimable] = await Promise.all([
+                    client.readContract({ address, abi: jackpotABI, functionName: 'entriesOf', args: [roundId, account] }),
+                    client.readContract({ address, abi: jackpotABI, functionName: 'claimable', args: [account, token] }),
+                ])
+                setMyEntries(entries)
+                setWinnings(claimable)
+            }
+        } catch (err) {
+            console.error('Error loading jackpot:', err)
+        }
+    }, [client, walletAddress, chainConfig.jackpotAddress])
+
+    useEffect(() => {
+        loadJackpot()
+    }, [loadJackpot])
+
+    const executeWrite = async (action: string, functionName: string, args: unknown[], value?: bigint) => {
+        try {
+            await writeToContract(chainConfig, functionName, args, value, jackpot)
+            await loadJackpot()
+        } catch (error) {
+            console.error(`Error ${action}:`, error)
+            alert(`Failed to ${action}: ${(error as Error).message}`)
+        }
+    }
+
+    const buyEntries = async () => {
+        if (!config) return
+        const cost = BigInt(count) * config.entryPrice
+        try {
+            await approveToken(chainConfig, config.token, cost, jackpot.address)
+        } catch (error) {
+            alert(`Failed to approve: ${(error as Error).message}`)
+            return
+        }
+        await executeWrite('buy entries', 'buyEntries', [BigInt(count)], config.token === zeroAddress ? cost : undefined)
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    const open = history.find(h => h.id === config?.roundId)?.round
+    const buttonClass = "px-4 py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+
+    return (
+        <div className="bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <h2 className="font-heading text-xl mb-1 text-[#1a5276]">Jackpot</h2>
+            <p className="text-sm text-muted mb-4">Every entry is a ticket. When the round ends, a future block hash picks the winner and the next round opens.</p>
+
+            {config && open && (
+                <div className="text-xs mb-3">
+                    <small className="block font-bold text-[#f5a623] text-sm">Round #{config.roundId.toString()}: {formatEther(open.pot)} {currencySymbol} pot</small>
+                    <small className="block text-muted">
+                        {open.entries.toString()} entries at {formatEther(config.entryPrice)} {currencySymbol}
+                        {walletAddress && ` · you hold ${myEntries.toString()}`}
+                    </small>
+                    <small className="block text-muted">
+                        {now < open.endTime ? `Ends ${new Date(Number(open.endTime) * 1000).toLocaleString()}` : 'Ended — the next entry or a close starts the draw'}
+                    </small>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <div className="flex gap-2">
+                    <input type="text" placeholder="Entries" value={count} onChange={(e) => setCount(e.target.value.replace(/[^0-9]/g, ''))}
+                        className="flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7]" />
+                    <button onClick={buyEntries} disabled={!walletAddress || !config || !count || count === '0'} className={buttonClass}>Buy</button>
+                    {open && now >= open.endTime && (
+                        <button onClick={() => executeWrite('close round', 'closeRound', [])} disabled={!walletAddress} className={buttonClass}>Close</button>
+                    )}
+                </div>
+                {winnings > 0n && config && (
+                    <button onClick={() => executeWrite('claim jackpot', 'claim', [config.token])} className={`${buttonClass} w-full`}>
+                        Claim {formatEther(winnings)} {currencySymbol}
+                    </button>
+                )}
+            </div>
+
+            {history.some(h => h.round.drawBlock > 0n) && (
+                <div className="mt-3">
+                    <small className="block text-xs font-bold text-[#1a5276]">Past rounds</small>
+                    {history.filter(h => h.round.drawBlock > 0n).map(({ id, round }) => (
+                        <small key={id.toString()} className="block text-xs text-muted">
+                            #{id.toString()} · {formatEther(round.pot)} {currencySymbol} · {round.entries.toString()} entries — {round.drawn
+                                ? `won by ${round.winner.slice(0, 6)}…${round.winner.slice(-4)} (${formatEther(round.prize)} ${currencySymbol})`
+                                : round.refunded
+                                    // drawn too late to use its block hash, so every entry is paid back instead
+                                    ? <>refunded · <button onClick={() => executeWrite('collect refund', 'collectRefund', [id, walletAddress])} disabled={!walletAddress} className="underline cursor-pointer">Collect my refund</button></>
+                                    : blockNumber > round.drawBlock
+                                        ? <button onClick={() => executeWrite('draw round', 'draw', [id])} disabled={!walletAddress} className="underline cursor-pointer">Draw</button>
+                                        : `drawing at block ${round.drawBlock.toString()}`}
+                        </small>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Claim Tile Component — payouts are credited on resolve and pulled by the player
+function ClaimTile({
+    claimable,
+    referralEarnings,
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    claimable: bigint
+    referralEarnings: bigint
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    const claim = async () => {
+        try {
+            await writeToContract(chainConfig, 'claim', [zeroAddress])
+        } catch (error) {
+            console.error('Error claiming:', error)
+            alert(`Failed to claim: ${(error as Error).message}`)
+        }
+    }
+
+    return (
+        <div className="md:col-span-2 flex items-center justify-between bg-white border-3 border-[#5aace0] rounded-2xl px-5 py-3 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <div>
+                <h2 className="font-heading text-lg text-[#1a5276]">Unclaimed Winnings</h2>
+                <div className="text-sm font-bold text-[#f5a623]">{formatEther(claimable)} {currencySymbol}</div>
+                {referralEarnings > 0n && (
+                    <small className="block text-xs text-muted">Referral earnings to date: {formatEther(referralEarnings)} {currencySymbol}</small>
+                )}
+            </div>
+            <button onClick={claim} disabled={!walletAddress || claimable === 0n}
+                className="px-6 py-2 text-sm font-bold bg-gradient-to-b from-[#a8e063] to-[#7cb342] text-white border-2 border-[#558b2f] rounded-full shadow-[0_2px_0_#33691e] hover:shadow-[0_1px_0_#33691e] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Claim
+            </button>
+        </div>
+    )
+}
+
+// Owner Tile Component — circuit breaker, fees and ownership handover for the escrow owner
+interface AdminState {
+    owner: string
+    pendingOwner: string
+    feeRecipient: string
+    paused: boolean
+    houseFeePercentage: bigint
+    houseFees: bigint
+}
+
+function OwnerTile({
+    admin,
+    walletAddress,
+    currencySymbol,
+    chainConfig,
+}: {
+    admin: AdminState
+    walletAddress: string
+    currencySymbol: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    const [houseFee, setHouseFee] = useState('')
+    const [feeRecipient, setFeeRecipient] = useState('')
+    const [newOwner, setNewOwner] = useState('')
+    const [referrer, setReferrer] = useState('')
+    const [referralPct, setReferralPct] = useState('')
+    const isOwner = admin.owner.toLowerCase() === walletAddress.toLowerCase()
+    const isPendingOwner = admin.pendingOwner.toLowerCase() === walletAddress.toLowerCase()
+
+    const executeWrite = async (action: string, functionName: string, args: unknown[]) => {
+        try {
+            await writeToContract(chainConfig, functionName, args)
+        } catch (error) {
+            console.error(`Error ${action}:`, error)
+            alert(`Failed to ${action}: ${(error as Error).message}`)
+        }
+    }
+
+    const inputClass = "flex-1 px-3 py-2 border-2 border-[#5aace0] rounded-xl text-sm font-body bg-[#eaf6fc] focus:outline-none focus:ring-2 focus:ring-[#4fc3f7]"
+    const buttonClass = "px-4 py-2 text-sm font-bold bg-gradient-to-b from-[#4fc3f7] to-[#039be5] text-white border-2 border-[#0277bd] rounded-full shadow-[0_2px_0_#01579b] hover:shadow-[0_1px_0_#01579b] hover:translate-y-[1px] transition-all cursor-pointer disabled:opacity-50"
+
+    return (
+        <div className="md:col-span-2 bg-white border-3 border-[#5aace0] rounded-2xl p-5 shadow-[0_4px_12px_rgba(90,172,224,0.3)] animate-fade-in">
+            <h2 className="font-heading text-xl mb-1 text-[#1a5276]">Escrow Owner</h2>
+            <small className="block text-xs text-muted">
+                {admin.paused ? '⏸ Paused — no new games or joins' : '▶ Accepting games'} · house fee {admin.houseFeePercentage.toString()}% · unwithdrawn {formatEther(admin.houseFees)} {currencySymbol}
+            </small>
+            <small className="block text-xs text-muted mb-3">Fee recipient: {admin.feeRecipient.slice(0, 6)}...{admin.feeRecipient.slice(-4)}</small>
+
+            {isPendingOwner && (
+                <button onClick={() => executeWrite('accept ownership', 'acceptOwnership', [])} className={`${buttonClass} w-full mb-3`}>
+                    Accept Ownership
+                </button>
+            )}
+
+            {isOwner && (
+                <div className="space-y-2">
+                    <div className="flex gap-2">
+                        <button onClick={() => executeWrite(admin.paused ? 'unpause' : 'pause', 'setPaused', [!admin.paused])}
+                            className={`flex-1 py-2 text-sm font-bold text-white border-2 rounded-full transition-all cursor-pointer ${admin.paused
+                                ? 'bg-gradient-to-b from-[#a8e063] to-[#7cb342] border-[#558b2f] shadow-[0_2px_0_#33691e]'
+                                : 'bg-gradient-to-b from-[#ef5350] to-[#c62828] border-[#b71c1c] shadow-[0_2px_0_#7f0000]'}`}
+                        >
+                            {admin.paused ? 'Unpause' : 'Pause Creates & Joins'}
+                        </button>
+                        <button onClick={() => executeWrite('withdraw fees', 'withdraw', [zeroAddress])} disabled={admin.houseFees === 0n} className={`flex-1 ${buttonClass}`}>
+                            Withdraw Fees
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input type="number" min="0" max="100" placeholder="House fee %" value={houseFee} onChange={(e) => setHouseFee(e.target.value)} className={inputClass} />
+                        <button onClick={() => executeWrite('set house fee', 'setHouseFee', [BigInt(houseFee || '0')])} disabled={!houseFee} className={buttonClass}>Set Fee</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input type="text" placeholder="Fee recipient 0x..." value={feeRecipient} onChange={(e) => setFeeRecipient(e.target.value)} className={inputClass} />
+                        <button onClick={() => executeWrite('set fee recipient', 'setFeeRecipient', [feeRecipient])} disabled={!feeRecipient} className={buttonClass}>Set Recipient</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input type="text" placeholder="Referrer 0x..." value={referrer} onChange={(e) => setReferrer(e.target.value)} className={inputClass} />
+                        <input type="number" min="0" max="100" placeholder="% of house fee" value={referralPct} onChange={(e) => setReferralPct(e.target.value)} className={inputClass} />
+                        <button onClick={() => executeWrite('set referral tier', 'setReferralTier', [referrer, Math.round(parseFloat(referralPct || '0') * 100)])}
+                            disabled={!referrer || !referralPct} className={buttonClass}>Set Tier</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input type="text" placeholder="New owner 0x..." value={newOwner} onChange={(e) => setNewOwner(e.target.value)} className={inputClass} />
+                        <button onClick={() => executeWrite('transfer ownership', 'transferOwnership', [newOwner])} disabled={!newOwner} className={buttonClass}>Transfer</button>
+                    </div>
+                    {admin.pendingOwner !== zeroAddress && (
+                        <small className="block text-xs text-muted">
+                            Waiting for {admin.pendingOwner.slice(0, 6)}...{admin.pendingOwner.slice(-4)} to accept ownership
+                        </small>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Main SinglePage component - wrapper for all tiles with game state management
+function SinglePage({
+    walletAddress,
+    chainConfig,
+}: {
+    walletAddress: string
+    chainConfig: typeof CHAINS[ChainKey]
+}) {
+    const [openGames, setOpenGames] = useState<Game[]>([])
+    const [recentGames, setRecentGames] = useState<Game[]>([])
+    const [ongoingGames, setOngoingGames] = useState<Game[]>([])
+    const [pastGames, setPastGames] = useState<Game[]>([])
+    const [myGames, setMyGames] = useState<Game[]>([])
+    const [claimable, setClaimable] = useState<bigint>(0n)
+    const [referralEarnings, setReferralEarnings] = useState<bigint>(0n)
+    const [admin, setAdmin] = useState<AdminState | null>(null)
+    const lastProcessedBlockRef = useRef<bigint | null>(null)
+
+    // Create public client for reading contract data
+    const client = createPublicClient({
+        chain: chainConfig.chain,
+        transport: http(),
+    })
+
+    const readContract = async <T,>(functionName: string, args: readonly unknown[] = []): Promise<T> => {
+        return await client.readContract({
+            address: chainConfig.contractAddress as `0x${string}`,
+            abi: contractABI,
+            functionName: functionName as any,
+            args: args as any,
+        }) as T
+    }
+
+    const fetchGames = async (functionName: string, args: readonly unknown[]): Promise<Game[]> => {
+        try {
+            // Indexed views (getGamesByPlayer/getGamesByGovernor) return [ids, total]
+            const result = await readContract<readonly bigint[] | readonly [readonly bigint[], bigint]>(functionName, args)
+            const ids = functionName === 'getGames' ? result as readonly bigint[] : (result as readonly [readonly bigint[], bigint])[0]
+            const games = await Promise.all(
+                ids.map(async (gameId) => {
+                    const gameInfo = await readContract<GameInfo>('getGame', [gameId])
+                    return { id: gameId, ...gameInfo }
+                })
+            )
+            return games
+        } catch (err) {
+            console.error(`Error fetching games (${functionName}):`, err)
+            return []
+        }
+    }
+
+    const loadAllGames = async () => {
+        try {
+            const [nextGameId, owner, pendingOwner, feeRecipient, paused, houseFeePercentage, houseFees] = await Promise.all([
+                readContract<bigint>('nextGameId'),
+                readContract<string>('owner'),
+                readContract<string>('pendingOwner'),
+                readContract<string>('feeRecipient'),
+                readContract<boolean>('paused'),
+                readContract<bigint>('houseFeePercentage'),
+                readContract<bigint>('accumulatedHouseFees', [zeroAddress]),
+            ])
+            setAdmin({ owner, pendingOwner, feeRecipient, paused, houseFeePercentage, houseFees })
+            const startGame = nextGameId > PAGE_SIZE ? nextGameId - PAGE_SIZE : 0n
+            const normalizedAddress = walletAddress ? getAddress(walletAddress) as `0x${string}` : null
+
+            // Fetch the latest page of games (no governor filter); side bets show every state
+            const recentGamesData = await fetchGames('getGames', ['0x0000000000000000000000000000000000000000', true, true, true, startGame, PAGE_SIZE])
+            setOpenGames(recentGamesData.filter(g => g.state === 0))
+            setRecentGames([...recentGamesData].reverse())
+
+            if (normalizedAddress) {
+                // Latest page of each index, newest first
+                const [governorGamesData, myGamesData, claimableData, referralData] = await Promise.all([
+                    fetchGames('getGamesByGovernor', [normalizedAddress, 0n, PAGE_SIZE]),
+                    fetchGames('getGamesByPlayer', [normalizedAddress, 0n, PAGE_SIZE]),
+                    readContract<bigint>('claimable', [normalizedAddress, zeroAddress]),
+                    readContract<bigint>('referralEarnings', [normalizedAddress, zeroAddress]),
+                ])
+                setOngoingGames(governorGamesData.filter(g => g.state <= 1))
+                setPastGames(governorGamesData.filter(g => g.state >= 2))
+                setMyGames(myGamesData)
+                setClaimable(claimableData)
+                setReferralEarnings(referralData)
+            } else {
+                setOngoingGames([])
+                setPastGames([])
+                setMyGames([])
+                setClaimable(0n)
+                setReferralEarnings(0n)
+            }
+        } catch (err) {
+            console.error('Error loading games:', err)
+        }
+    }
+
+    // Initial data load on mount and when wallet/chain changes
+    useEffect(() => {
+        lastProcessedBlockRef.current = null
+        loadAllGames()
+    }, [walletAddress, chainConfig.contractAddress])
+
+    // Event scanning with catch-up mechanism
+    useEffect(() => {
+        if (!client) return
+
+        const performEventScan = async () => {
+            try {
                 const currentBlock = await client.getBlockNumber()
                 const lastBlock = lastProcessedBlockRef.current
 
@@ -606,6 +1953,31 @@ function SinglePage({
 
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {admin?.paused && (
+                <div className="md:col-span-2 text-center bg-[#ffebee] border-3 border-[#c62828] rounded-2xl px-5 py-3 text-sm font-bold text-red">
+                    ⏸ The escrow is paused: new games and joins are disabled. Resolutions, refunds and claims still work.
+                </div>
+            )}
+
+            {admin && walletAddress && [admin.owner, admin.pendingOwner].some(a => a.toLowerCase() === walletAddress.toLowerCase()) && (
+                <OwnerTile
+                    admin={admin}
+                    walletAddress={walletAddress}
+                    currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                    chainConfig={chainConfig}
+                />
+            )}
+
+            {claimable > 0n && (
+                <ClaimTile
+                    claimable={claimable}
+                    referralEarnings={referralEarnings}
+                    walletAddress={walletAddress}
+                    currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                    chainConfig={chainConfig}
+                />
+            )}
+
             <CreateGameTile
                 walletAddress={walletAddress}
                 currencySymbol={chainConfig.chain.nativeCurrency.symbol}
@@ -630,6 +2002,38 @@ function SinglePage({
                 pastGames={pastGames}
                 currencySymbol={chainConfig.chain.nativeCurrency.symbol}
             />
+
+            <MyGamesTile
+                myGames={myGames}
+                walletAddress={walletAddress}
+                currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                chainConfig={chainConfig}
+            />
+
+            {chainConfig.bondsAddress && walletAddress && (
+                <BondsTile
+                    walletAddress={walletAddress}
+                    currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                    chainConfig={chainConfig}
+                />
+            )}
+
+            {chainConfig.jackpotAddress && (
+                <JackpotTile
+                    walletAddress={walletAddress}
+                    currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                    chainConfig={chainConfig}
+                />
+            )}
+
+            {chainConfig.sideBetsAddress && (
+                <SideBetsTile
+                    games={recentGames}
+                    walletAddress={walletAddress}
+                    currencySymbol={chainConfig.chain.nativeCurrency.symbol}
+                    chainConfig={chainConfig}
+                />
+            )}
         </div>
     )
 }
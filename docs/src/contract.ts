@@ -0,0 +1,90 @@
+import { createPublicClient, createWalletClient, custom, erc20Abi, http, zeroAddress } from 'viem'
+import type { Abi } from 'viem'
+import type { mainnet, sepolia } from 'viem/chains'
+import contractABI from '@pockit/challenge-protocol/contracts/abi.js'
+import type { CHAINS, ChainKey } from './App'
+
+// Wallet utilities
+const createWallet = async (chain: typeof mainnet | typeof sepolia) => {
+    if (!window.ethereum) throw new Error('No wallet found')
+    const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' })
+    return createWalletClient({
+        account: accounts[0] as `0x${string}`,
+        chain: chain,
+        transport: custom(window.ethereum),
+    })
+}
+
+export const switchNetwork = async (chain: typeof mainnet | typeof sepolia) => {
+    if (!window.ethereum) return
+    try {
+        await window.ethereum.request({
+            method: 'wallet_switchEthereumChain',
+            params: [{ chainId: `0x${chain.id.toString(16)}` }],
+        })
+    } catch (switchError: any) {
+        if (switchError.code === 4902) {
+            await window.ethereum.request({
+                method: 'wallet_addEthereumChain',
+                params: [{
+                    chainId: `0x${chain.id.toString(16)}`,
+                    chainName: chain.name,
+                    nativeCurrency: chain.nativeCurrency,
+                    rpcUrls: chain.rpcUrls.default.http,
+                    blockExplorerUrls: chain.blockExplorers?.default ? [chain.blockExplorers.default.url] : [],
+                }],
+            })
+        } else {
+            throw switchError
+        }
+    }
+}
+
+const ensureCorrectChain = async (chain: typeof mainnet | typeof sepolia) => {
+    if (!window.ethereum) throw new Error('No wallet found')
+    const chainId = await window.ethereum.request({ method: 'eth_chainId' })
+    const expectedChainId = `0x${chain.id.toString(16)}`
+    if (chainId !== expectedChainId) await switchNetwork(chain)
+}
+
+export const writeToContract = async (
+    chainConfig: typeof CHAINS[ChainKey],
+    functionName: string,
+    args: readonly unknown[],
+    value?: bigint,
+    target: { address: string, abi: Abi } = { address: chainConfig.contractAddress, abi: contractABI }
+) => {
+    const chain = chainConfig.chain
+    await ensureCorrectChain(chain)
+    const wallet = await createWallet(chain)
+    const request = {
+        address: target.address as `0x${string}`,
+        abi: target.abi,
+        functionName: functionName as any,
+        args: args as any,
+        value: value as bigint,
+        account: wallet.account,
+    } as any
+    // Gas grows with whitelists, councils, payout schedules and multicall batches, so estimate each call
+    const gas = await createPublicClient({ chain, transport: http() }).estimateContractGas(request)
+    return wallet.writeContract({ ...request, gas: gas + gas / 5n, chain: null })
+}
+
+// Approves the escrow (or another `spender`) to pull `amount` of an ERC-20 stake token
+export const approveToken = async (
+    chainConfig: typeof CHAINS[ChainKey],
+    token: string,
+    amount: bigint,
+    spender: string = chainConfig.contractAddress
+) => {
+    if (token === zeroAddress) return
+    await ensureCorrectChain(chainConfig.chain)
+    const wallet = await createWallet(chainConfig.chain)
+    return wallet.writeContract({
+        address: token as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [spender as `0x${string}`, amount],
+        chain: null,
+    })
+}
@@ -0,0 +1,43 @@
+import { concat, encodeAbiParameters, getAddress, keccak256 } from 'viem'
+import type { Hex } from 'viem'
+
+// Same tree as the SDK's EscrowClient.merkleRoot/merkleProof: double-hashed address leaves, sorted pairs
+
+const leaf = (address: string): Hex =>
+    keccak256(keccak256(encodeAbiParameters([{ type: 'address' }], [getAddress(address)])))
+
+function layers(addresses: readonly string[]): Hex[][] {
+    const leaves = [...new Set(addresses.map(leaf))].sort()
+    if (leaves.length === 0) throw new Error('Whitelist is empty')
+    const result = [leaves]
+    while (result[result.length - 1].length > 1) {
+        const prev = result[result.length - 1]
+        const next: Hex[] = []
+        for (let i = 0; i < prev.length; i += 2) {
+            next.push(i + 1 < prev.length ? keccak256(concat([prev[i], prev[i + 1]].sort())) : prev[i])
+        }
+        result.push(next)
+    }
+    return result
+}
+
+// Splits a pasted list on commas, whitespace or newlines
+export const parseAddressList = (input: string) =>
+    input.split(/[\s,]+/).map(addr => addr.trim()).filter(addr => addr.length > 0)
+
+export function merkleRoot(addresses: readonly string[]): Hex {
+    const tree = layers(addresses)
+    return tree[tree.length - 1][0]
+}
+
+export function merkleProof(addresses: readonly string[], account: string): Hex[] {
+    const tree = layers(addresses)
+    let index = tree[0].indexOf(leaf(account))
+    if (index === -1) throw new Error('Account not in whitelist')
+    const proof: Hex[] = []
+    for (const layer of tree.slice(0, -1)) {
+        if ((index ^ 1) < layer.length) proof.push(layer[index ^ 1])
+        index >>= 1
+    }
+    return proof
+}
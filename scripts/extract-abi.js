@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 // scripts/extract-abi.js
-// Extracts the ABI from Foundry's compiled output and writes:
-//   contracts/abi.js   (CommonJS-ish ESM for Node SDK)
-//   docs/src/challengeAbi.ts (TypeScript const for frontend)
+// Extracts the ABI from Foundry's compiled output and writes, each with a typed .d.ts next to it:
+//   contracts/abi.js   (ESM for the SDK and the docs app) — GameEscrow plus the GameEscrowExtension functions it forwards
+//   contracts/tournamentAbi.js (TournamentEscrow)
+//   contracts/sideBetsAbi.js (SideBets)
+//   contracts/seriesAbi.js (GameSeries)
+//   contracts/rpsAbi.js (RockPaperScissorsGovernor)
+//   contracts/bondsAbi.js (GovernorBonds)
+//   contracts/jackpotAbi.js (Jackpot)
 
 import { readFileSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
@@ -11,23 +16,36 @@ import { fileURLToPath } from 'url';
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const root = join(__dirname, '..');
 
-const artifact = JSON.parse(
-  readFileSync(join(root, 'out/contract.sol/GameEscrow.json'), 'utf-8')
+const loadAbi = (artifact) => JSON.stringify(
+  JSON.parse(readFileSync(join(root, 'out', artifact), 'utf-8')).abi, null, 2
 );
-const abi = artifact.abi;
-const pretty = JSON.stringify(abi, null, 2);
+const loadRawAbi = (artifact) => JSON.parse(readFileSync(join(root, 'out', artifact), 'utf-8')).abi;
 
-// contracts/abi.js — default export for the Node SDK
-writeFileSync(
-  join(root, 'contracts/abi.js'),
-  `const abi = ${pretty}\n\nexport default abi;\n`
-);
+// GameEscrow forwards unknown calls to GameEscrowExtension, so clients see one ABI at the escrow address
+const signature = (item) => `${item.type} ${item.name ?? ''}(${(item.inputs ?? []).map(i => i.type).join(',')})`;
+const escrowAbi = loadRawAbi('contract.sol/GameEscrow.json');
+const known = new Set(escrowAbi.map(signature));
+const extensionAbi = loadRawAbi('extension.sol/GameEscrowExtension.json').filter(item => !known.has(signature(item)));
+const order = ['constructor', 'fallback', 'receive', 'function', 'event', 'error'];
+const merged = [...escrowAbi, ...extensionAbi].sort((a, b) =>
+  order.indexOf(a.type) - order.indexOf(b.type) || (a.name ?? '').localeCompare(b.name ?? ''));
+const pretty = JSON.stringify(merged, null, 2);
 
-// docs/src/challengeAbi.ts — typed const for the Viem frontend
-writeFileSync(
-  join(root, 'docs/src/challengeAbi.ts'),
-  `const contractABI = ${pretty} as const\n\nexport default contractABI;\n`
-);
+// Each ABI ships as JS for the Node SDK plus a declaration typing it as the exact ABI literal, so TypeScript
+// consumers (src/index.d.ts, the docs app via viem) derive their types from it and break when the contract changes
+const written = [];
+const writeAbi = (file, json) => {
+  writeFileSync(join(root, 'contracts', `${file}.js`), `const abi = ${json}\n\nexport default abi;\n`);
+  writeFileSync(join(root, 'contracts', `${file}.d.ts`), `declare const abi: ${json};\n\nexport default abi;\n`);
+  written.push(`contracts/${file}.js`, `contracts/${file}.d.ts`);
+};
+
+writeAbi('abi', pretty);
+writeAbi('tournamentAbi', loadAbi('tournament.sol/TournamentEscrow.json'));
+writeAbi('sideBetsAbi', loadAbi('sidebets.sol/SideBets.json'));
+writeAbi('seriesAbi', loadAbi('series.sol/GameSeries.json'));
+writeAbi('rpsAbi', loadAbi('rps.sol/RockPaperScissorsGovernor.json'));
+writeAbi('bondsAbi', loadAbi('bonds.sol/GovernorBonds.json'));
+writeAbi('jackpotAbi', loadAbi('jackpot.sol/Jackpot.json'));
 
-console.log('✓ contracts/abi.js');
-console.log('✓ docs/src/challengeAbi.ts');
+written.forEach(file => console.log(`✓ ${file}`));
@@ -13,8 +13,11 @@ const escrow = new EscrowClient({
 const governor = escrow.asGovernor({
   fee: 2,
 
+  // Only coin flip lobbies — games of other types governed by this wallet are left alone
+  gameTypes: ["coinflip"],
+
   // Event handler: When a player creates a game, governor auto-joins as opponent
-  onGameCreated: async (gameId, game, { creator, stakeAmount }) => {
+  onGameCreated: async (gameId, game, { creator, token, stakeAmount }) => {
     console.log(`[Game ${gameId}] Created by ${creator} with stake ${escrow.formatEther(stakeAmount)}`);
 
     // Don't join our own games
@@ -22,26 +25,41 @@ const governor = escrow.asGovernor({
       return;
     }
 
+    // Skip lobbies whose committed fee cap is below our fee
+    if (game.maxGovernorFeePercentage < governor.fee) {
+      console.log(`[Game ${gameId}] Fee cap ${game.maxGovernorFeePercentage}% below our ${governor.fee}%, skipping`);
+      return;
+    }
+
     console.log(`[Game ${gameId}] Auto-joining as opponent...`);
-    await escrow.joinGame(gameId, stakeAmount);
+    await escrow.joinGame(gameId, stakeAmount, { token });
   },
 
-  // Event handler: Start game when we have 2 players
+  // Event handler: Start game when we have 2 players (lobbies with maxPlayers = 2 start themselves)
   onPlayerJoined: async (gameId, game, { player }) => {
     console.log(`[Game ${gameId}] Player ${player.slice(0, 6)}... joined (${game.players.length} total players)`);
 
-    if (game.players.length === 2 && game.state === 0n) {
+    if (game.players.length === 2 && game.state === 0) {
       console.log(`[Game ${gameId}] Starting coin flip`);
       await governor.startGame(gameId);
     }
   },
 
+  // If the coin flip throws, call the game off and refund both stakes
+  cancelOnError: true,
+
   // Game loop: Runs the coin flip and resolves atomically
-  gameLoop: async (gameId, game, resolve) => {
+  gameLoop: async (gameId, game, resolve, resolveRanked, cancel) => {
     const activePlayers = game.players.filter(
       p => !game.forfeited.some(f => f.toLowerCase() === p.toLowerCase())
     );
 
+    if (activePlayers.length !== 2) {
+      console.log(`[Game ${gameId}] Need exactly 2 players, cancelling`);
+      await cancel();
+      return;
+    }
+
     console.log(`[Game ${gameId}] Running coin flip with ${activePlayers.length} players...`);
 
     // Coin flip: 50/50 chance
@@ -0,0 +1,60 @@
+// server/joinRelayer.js
+// Submits gasless joins: players sign with `EscrowClient.signJoin()` and POST the result here; this wallet pays the gas.
+import { EscrowClient } from "@pockit/challenge-protocol";
+import express from "express";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const escrow = new EscrowClient({
+  privateKey: process.env.relayerPrivateKey,
+  contractAddress: process.env.matchmakingContractAddress,
+  providerUrl: process.env.PROVIDER_URL || "https://eth.llamarpc.com",
+});
+
+// Optional allow-list of game types this relayer sponsors, e.g. RELAYER_GAME_TYPES=coinflip,chess
+const gameTypes = process.env.RELAYER_GAME_TYPES?.split(",").map(t => t.trim()).filter(Boolean);
+
+const app = express();
+app.use(express.json());
+
+// GET /status - Relayer address and remaining gas balance
+app.get("/status", async (_req, res) => {
+  try {
+    const balance = await escrow.getBalance();
+    res.json({ relayer: escrow.wallet.address, balance: balance.toString(), gameTypes: gameTypes ?? "any" });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /join - Body: the object returned by signJoin(), with BigInts sent as decimal strings
+// Responds { relayed: true, txHash } or 400 { relayed: false, error }
+app.post("/join", async (req, res) => {
+  const { request, proof = [], signature, permit } = req.body ?? {};
+  if (!request || !signature) {
+    return res.status(400).json({ relayed: false, error: "Missing required fields: request and signature" });
+  }
+
+  try {
+    const game = await escrow.getGame(request.gameId);
+    if (game.state !== 0) return res.status(400).json({ relayed: false, error: "Game is not open" });
+    if (gameTypes && !gameTypes.includes(game.gameType)) {
+      return res.status(400).json({ relayed: false, error: `Game type "${game.gameType}" is not relayed here` });
+    }
+
+    // Gas estimation reverts before sending, so bad signatures, expired permits or full lobbies cost nothing
+    const receipt = await escrow.submitJoin({ request, proof, signature, permit });
+    console.log(`[Game ${request.gameId}] Relayed join for ${request.player} (${receipt.hash})`);
+    res.json({ relayed: true, txHash: receipt.hash });
+  } catch (error) {
+    console.error(`[Game ${request.gameId}] Join relay failed:`, error.shortMessage || error.message);
+    res.status(400).json({ relayed: false, error: error.shortMessage || error.message });
+  }
+});
+
+const PORT = process.env.PORT || 3001;
+
+app.listen(PORT, () => {
+  console.log(`Join relayer ${escrow.wallet.address} listening on port ${PORT}`);
+});
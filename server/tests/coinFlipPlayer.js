@@ -15,10 +15,30 @@ async function player1MakeGame(stakeAmount) {
   const contract = new ethers.Contract(process.env.matchmakingContractAddress, contractABI, playerWallet);
 
   const createTx = await contract.createGame(
-    "0xdBec3DC802a817EEE74a7077f734654384857E9d",
-    stakeAmount,
-    2,   // maxPlayers
-    [],  // whitelist
+    {
+      governor: "0xdBec3DC802a817EEE74a7077f734654384857E9d",
+      token: ethers.ZeroAddress, // native ETH stake
+      stakeAmount,
+      maxPlayers: 2,             // the governor's join fills the lobby and starts the game
+      minPlayers: 2,
+      joinDeadline: 0,           // lobby stays open until filled
+      resolutionTimeout: 86400,  // refundable if unresolved a day after start
+      maxGovernorFeePercentage: 2,
+      concedeRefundBps: 0,       // conceding forfeits the whole stake
+      payoutSchedule: [],        // equal split
+      whitelist: [],
+      teamCount: 0,              // free-for-all
+      maxTeamSize: 0,
+      creatorTeam: 0,
+      governors: [],             // single governor
+      governorThreshold: 0,
+      whitelistRoot: ethers.ZeroHash, // no Merkle invite list
+      gameType: ethers.encodeBytes32String("coinflip"), // what coinFlipGovernor.js picks up
+      metadataURI: "",
+      metadata: "0x",
+      referrer: ethers.ZeroAddress,
+      minGovernorBond: 0,        // no bond required of the governor
+    },
     { value: stakeAmount }
   );
   const receipt = await createTx.wait();
@@ -0,0 +1,449 @@
+// src/index.d.ts
+// Types for the SDK. Contract shapes (structs, event arguments) are derived from the generated ABI declarations in
+// contracts/*.d.ts, so a contract change that the SDK doesn't account for shows up as a compile error downstream.
+import type {
+    Abi,
+    AbiParameter,
+    AbiParameterToPrimitiveType,
+    ExtractAbiEvent,
+    ExtractAbiEventNames,
+    ExtractAbiFunction,
+} from "abitype";
+import type { Contract, ContractTransactionReceipt, JsonRpcProvider, Wallet } from "ethers";
+import type escrowAbi from "../contracts/abi.js";
+import type tournamentAbi from "../contracts/tournamentAbi.js";
+import type bondsAbi from "../contracts/bondsAbi.js";
+import type jackpotAbi from "../contracts/jackpotAbi.js";
+
+// ── ABI helpers ──
+
+export type EscrowAbi = typeof escrowAbi;
+export type TournamentAbi = typeof tournamentAbi;
+
+type Receipt = Promise<ContractTransactionReceipt | null>;
+type Awaitable<T> = T | Promise<T>;
+
+/** Return value of a single-output view, as decoded from the ABI. */
+type ViewOutput<TAbi extends Abi, Name extends string> = AbiParameterToPrimitiveType<ExtractAbiFunction<TAbi, Name>["outputs"][0]>;
+
+/** Named event arguments, e.g. `EventArgs<EscrowAbi, "GameCreated">["creator"]`. */
+type EventArgs<TAbi extends Abi, Name extends ExtractAbiEventNames<TAbi>> = {
+    [P in ExtractAbiEvent<TAbi, Name>["inputs"][number] as P extends { name: infer N extends string } ? N : never]:
+        AbiParameterToPrimitiveType<P & AbiParameter>;
+};
+
+/** What `normalize*` does to a struct: integers that fit become Numbers, arrays become plain mutable arrays. */
+type Normalized<T, KeepBigInt extends keyof T = never> = {
+    -readonly [K in keyof T]: K extends KeepBigInt ? T[K]
+        : T[K] extends bigint ? number
+        : T[K] extends readonly (infer U)[] ? (U extends bigint ? number : U)[]
+        : T[K];
+};
+
+// ── Games ──
+
+export declare const GameState: {
+    readonly Open: 0;
+    readonly Started: 1;
+    readonly Resolved: 2;
+    readonly Expired: 3;
+    readonly Cancelled: 4;
+};
+export type GameState = (typeof GameState)[keyof typeof GameState];
+
+/** `getGame` exactly as the contract returns it (viem `readContract`, or ethers before normalizing). */
+export type RawGameInfo = ViewOutput<EscrowAbi, "getGame">;
+
+/** A game as returned by `EscrowClient.getGame` — see `normalizeGame` for what each field means. */
+export type GameInfo = Omit<Normalized<RawGameInfo, "stakeAmount" | "minGovernorBond">, "state" | "gameType"> & {
+    state: GameState;
+    /** Decoded short name (`"coinflip"`), `""` = untyped, hex when not a short name */
+    gameType: string;
+};
+
+/** A game in a list, with its id. */
+export type Game = GameInfo & { id: bigint };
+
+export type EscrowEventName = ExtractAbiEventNames<EscrowAbi>;
+/** Arguments of an escrow event by name, e.g. `EscrowEventArgs<"PlayerJoined">`. */
+export type EscrowEventArgs<Name extends EscrowEventName> = EventArgs<EscrowAbi, Name>;
+
+export interface GameQuery {
+    /** Games this address joined or created */
+    player?: string;
+    /** Games this address governs (council members included) */
+    governor?: string;
+    /** `resolved` also covers Expired and Cancelled */
+    state?: "all" | "open" | "started" | "resolved";
+    offset?: bigint;
+    limit?: bigint;
+}
+
+export interface CreateGameOptions {
+    /** ERC-20 stake token, ZeroAddress for ETH */
+    token?: string;
+    resolutionTimeout?: number;
+    maxGovernorFee?: number;
+    payoutSchedule?: number[];
+    governor?: string;
+    governors?: string[];
+    governorThreshold?: number;
+    whitelistRoot?: string;
+    minPlayers?: number;
+    joinDeadline?: number;
+    concedeRefundBps?: number;
+    teamCount?: number;
+    maxTeamSize?: number;
+    team?: number;
+    gameType?: string;
+    metadataURI?: string;
+    metadata?: string;
+    referrer?: string;
+    minGovernorBond?: bigint;
+}
+
+export interface JoinGameOptions {
+    token?: string;
+    /** Sign an EIP-2612 permit instead of approving. Plain joins only: throws with `proof`, `team` or a referrer. */
+    permit?: boolean;
+    proof?: string[];
+    team?: number;
+    referrer?: string;
+}
+
+export interface SignedResolution {
+    gameId: bigint;
+    losers: string[];
+    governorFeePercentage: number;
+    nonce: bigint;
+    deadline: bigint;
+    signature: string;
+}
+
+export interface Permit {
+    deadline: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+export interface SignedJoin {
+    request: { gameId: bigint; player: string; team: number; referrer: string; nonce: bigint; deadline: bigint };
+    proof: string[];
+    signature: string;
+    /** Zeroed (`v = 0`) when the player approved the escrow instead */
+    permit: Permit;
+}
+
+export interface Vote {
+    votedStart: boolean;
+    /** Outcome hash, ZeroHash if none */
+    outcome: string;
+    outcomeVotes: number;
+}
+
+export interface AdminState {
+    owner: string;
+    pendingOwner: string;
+    feeRecipient: string;
+    paused: boolean;
+    houseFeePercentage: number;
+    bondRegistry: string;
+}
+
+// ── Tournaments, series, side bets, bonds, jackpot ──
+
+type TournamentStruct = ViewOutput<TournamentAbi, "getTournament">;
+/** A tournament as returned by `EscrowClient.getTournament`. */
+export type Tournament = Omit<Normalized<TournamentStruct, "entryFee">, "state" | "matchGames"> & {
+    state: GameState;
+    /** Escrow game id of each current-round match */
+    matchGames: bigint[];
+};
+
+export interface Series {
+    governor: string;
+    token: string;
+    stakeAmount: bigint;
+    winsNeeded: number;
+    players: string[];
+    gameIds: bigint[];
+    /** `wins[i]` belongs to `players[i]` */
+    wins: number[];
+    /** ZeroAddress while undecided */
+    winner: string;
+}
+
+export type RpsMove = "rock" | "paper" | "scissors";
+
+export interface RpsRound {
+    players: string[];
+    committed: boolean[];
+    /** `""` until revealed */
+    moves: (RpsMove | "")[];
+    commitDeadline: number;
+    revealDeadline: number;
+}
+
+export type Bond = Normalized<ViewOutput<typeof bondsAbi, "getBond">, "amount" | "pendingWithdrawal" | "slashedTotal">;
+
+export interface Slash {
+    gameId: bigint;
+    amount: bigint;
+    timestamp: number;
+    reason: string;
+}
+
+/** A jackpot round as returned by `EscrowClient.getJackpotRound`. */
+export type JackpotRound = Normalized<ViewOutput<typeof jackpotAbi, "getRound">, "entries" | "pot" | "prize">;
+
+export interface EscrowClientOptions {
+    privateKey: string;
+    contractAddress: string;
+    providerUrl?: string;
+    contractABI?: readonly unknown[];
+    tournamentAddress?: string;
+    tournamentABI?: readonly unknown[];
+    sideBetsAddress?: string;
+    sideBetsABI?: readonly unknown[];
+    seriesAddress?: string;
+    seriesABI?: readonly unknown[];
+    rpsAddress?: string;
+    rpsABI?: readonly unknown[];
+    bondsAddress?: string;
+    bondsABI?: readonly unknown[];
+    jackpotAddress?: string;
+    jackpotABI?: readonly unknown[];
+    /** Earns its referral tier of the house fee on this wallet's stakes. Ignored when it is this wallet's own address */
+    referrer?: string;
+}
+
+// ── Client ──
+
+export declare class EscrowClient {
+    constructor(options: EscrowClientOptions);
+
+    provider: JsonRpcProvider;
+    wallet: Wallet;
+    contract: Contract;
+    tournaments: Contract | null;
+    sideBets: Contract | null;
+    series: Contract | null;
+    rps: Contract | null;
+    bonds: Contract | null;
+    jackpot: Contract | null;
+    referrer: string;
+
+    // Write
+    /** Resolves to the new game id. */
+    createGame(stakeAmount: bigint, maxPlayers?: number, whitelist?: string[], options?: CreateGameOptions): Promise<bigint>;
+    joinGame(gameId: bigint, stakeAmount: bigint, options?: JoinGameOptions): Receipt;
+    startGame(gameId: bigint): Receipt;
+    concede(gameId: bigint): Receipt;
+    closeLobby(gameId: bigint): Receipt;
+    resolveGame(gameId: bigint, losers: string[], fee?: number): Receipt;
+    resolveRanked(gameId: bigint, ranking: string[], fee?: number): Receipt;
+    resolveTeams(gameId: bigint, losingTeams: number[], fee?: number): Receipt;
+    resolveByGovernor(gameId: bigint): Receipt;
+    cancelNonce(nonce: bigint): Receipt;
+    /** `[functionName, args]` pairs, e.g. `[["startGame", [1n]]]`. */
+    multicall(calls: [functionName: string, args: unknown[]][]): Receipt;
+    resolveMany(resolutions: { gameId: bigint; losers: string[]; fee?: number }[]): Receipt;
+    signResolution(gameId: bigint, losers: string[], fee?: number, options?: { ttl?: number; nonce?: bigint }): Promise<SignedResolution>;
+    submitResolution(signed: SignedResolution): Receipt;
+    signJoin(gameId: bigint, options?: {
+        team?: number; proof?: string[]; referrer?: string; permit?: boolean; ttl?: number; nonce?: bigint;
+    }): Promise<SignedJoin>;
+    submitJoin(signed: Omit<SignedJoin, "permit" | "proof"> & Partial<Pick<SignedJoin, "permit" | "proof">>): Receipt;
+    refundExpiredGame(gameId: bigint): Receipt;
+    cancelGame(gameId: bigint): Receipt;
+    claim(token?: string): Receipt;
+    claimFor(account: string, token?: string): Receipt;
+    setHouseFee(percentage: number): Receipt;
+    withdraw(token?: string): Receipt;
+    setFeeRecipient(address: string): Receipt;
+    pause(): Receipt;
+    unpause(): Receipt;
+    transferOwnership(newOwner: string): Receipt;
+    acceptOwnership(): Receipt;
+    setReferralTier(referrer: string, bps: number): Receipt;
+    setBondRegistry(address: string): Receipt;
+    setHost(host: string, allowed?: boolean): Receipt;
+
+    // Read
+    getGame(gameId: bigint): Promise<GameInfo>;
+    getVote(gameId: bigint, governor?: string): Promise<Vote>;
+    getBalance(token?: string): Promise<bigint>;
+    getHouseFees(token?: string): Promise<bigint>;
+    getAdmin(): Promise<AdminState>;
+    getReferralTier(referrer?: string): Promise<number>;
+    getReferralEarnings(referrer?: string, token?: string): Promise<bigint>;
+    getClaimable(account?: string, token?: string): Promise<bigint>;
+    /** `now` is unix seconds, defaults to the latest block. */
+    isLobbyClosable(game: GameInfo, now?: number): Promise<boolean>;
+    isExpired(game: GameInfo, now?: number): Promise<boolean>;
+    getExpiredGames(query?: Omit<GameQuery, "state" | "player">): Promise<Game[]>;
+    getGames(query?: GameQuery): Promise<Game[]>;
+    /** Returns a function that stops watching. */
+    watchGames(query: GameQuery & { interval?: number }, callback: (games: Game[]) => void): () => void;
+    asGovernor(options?: GovernorOptions): Governor;
+
+    // Tournaments
+    createTournament(entryFee: bigint, size: number, options?: {
+        token?: string; governor?: string; resolutionTimeout?: number; governorFee?: number; runnerUpBps?: number;
+    }): Receipt;
+    enterTournament(tournamentId: bigint, entryFee: bigint, options?: { token?: string }): Receipt;
+    withdrawEntry(tournamentId: bigint): Receipt;
+    reportMatch(tournamentId: bigint, matchIndex: number, winner: string): Receipt;
+    cancelTournament(tournamentId: bigint): Receipt;
+    refundExpiredTournament(tournamentId: bigint): Receipt;
+    claimTournament(token?: string): Receipt;
+    getTournament(tournamentId: bigint): Promise<Tournament>;
+    getTournamentClaimable(account?: string, token?: string): Promise<bigint>;
+    getTournaments(query?: Omit<GameQuery, "player">): Promise<(Tournament & { id: bigint })[]>;
+    asTournamentGovernor(options: TournamentGovernorOptions): TournamentGovernor;
+
+    // Side bets
+    placeBet(gameId: bigint, player: string, amount: bigint, options?: { token?: string }): Receipt;
+    collectBets(gameId: bigint, bettor?: string): Receipt;
+    claimBets(token?: string): Receipt;
+    getBetPool(gameId: bigint): Promise<{ players: string[]; amounts: bigint[]; total: bigint }>;
+    getBets(gameId: bigint, bettor?: string): Promise<{ players: string[]; amounts: bigint[]; collected: boolean }>;
+    getBetClaimable(account?: string, token?: string): Promise<bigint>;
+
+    // Series and rematches
+    /** Resolves to the rematch's game id. Inside a series it is opened and linked in one `GameSeries.rematch` transaction. */
+    rematch(gameId: bigint): Promise<bigint>;
+    createSeries(gameId: bigint, winsNeeded: number): Receipt;
+    addSeriesGame(seriesId: bigint, gameId: bigint): Receipt;
+    getSeries(seriesId: bigint): Promise<Series>;
+    getSeriesForGame(gameId: bigint): Promise<bigint | null>;
+
+    // Rock-paper-scissors
+    commitMove(gameId: bigint, move: RpsMove): Promise<{ move: RpsMove; salt: string }>;
+    revealMove(gameId: bigint, move: RpsMove, salt: string): Receipt;
+    cancelConcededRound(gameId: bigint): Receipt;
+    getRound(gameId: bigint): Promise<RpsRound>;
+
+    // Governor bonds
+    postBond(amount: bigint): Receipt;
+    requestBondWithdrawal(amount: bigint): Receipt;
+    withdrawBond(): Receipt;
+    disputeResolution(gameId: bigint): Receipt;
+    slashBond(gameId: bigint, players: string[], amounts: bigint[], reason: string): Receipt;
+    dismissDispute(gameId: bigint): Receipt;
+    setArbiter(arbiter: string): Receipt;
+    claimCompensation(): Receipt;
+    getBond(governor?: string): Promise<Bond>;
+    getSlashes(governor?: string): Promise<Slash[]>;
+    getDispute(gameId: bigint): Promise<{ disputedBy: string; ruled: boolean }>;
+    getCompensation(account?: string): Promise<bigint>;
+
+    // Jackpot
+    buyEntries(count: number | bigint): Receipt;
+    closeJackpotRound(): Receipt;
+    drawJackpot(roundId: bigint): Receipt;
+    collectJackpotRefund(roundId: bigint, player?: string): Receipt;
+    claimJackpot(): Receipt;
+    getJackpot(): Promise<{ token: string; entryPrice: bigint; roundDuration: number; roundId: bigint; round: JackpotRound }>;
+    getJackpotRound(roundId: bigint): Promise<JackpotRound>;
+    getJackpotRounds(query?: { offset?: bigint; limit?: bigint }): Promise<(JackpotRound & { id: bigint })[]>;
+    getJackpotRoundsByPlayer(player?: string, query?: { offset?: bigint; limit?: bigint }): Promise<{ ids: bigint[]; total: bigint }>;
+    getJackpotEntries(roundId: bigint, player?: string): Promise<bigint>;
+    getJackpotClaimable(account?: string): Promise<bigint>;
+
+    // Merkle whitelists
+    static merkleRoot(addresses: string[]): string;
+    static merkleProof(addresses: string[], account: string): string[];
+}
+
+// ── Governors ──
+
+type GameHandler<Name extends EscrowEventName> = (gameId: bigint, game: GameInfo, args: EscrowEventArgs<Name>) => Awaitable<void>;
+type Verifier<Name extends EscrowEventName> = (gameId: bigint, game: GameInfo, args: EscrowEventArgs<Name>) => Awaitable<boolean>;
+
+export interface GovernorOptions {
+    /** Governor fee percentage (0–100), clamped to each game's `maxGovernorFeePercentage` */
+    fee?: number;
+    /** Only handle games of these types, e.g. `["coinflip"]` */
+    gameTypes?: string[];
+    gameLoop?: (
+        gameId: bigint,
+        game: GameInfo,
+        resolve: (losers: string[]) => Promise<unknown>,
+        resolveRanked: (ranking: string[]) => Promise<unknown>,
+        cancel: () => Promise<unknown>,
+        resolveTeams: (losingTeams: number[]) => Promise<unknown>,
+    ) => Promise<void>;
+    startWhenReady?: boolean | ((gameId: bigint, game: GameInfo) => Awaitable<boolean>);
+    cancelOnError?: boolean | ((gameId: bigint, game: GameInfo, error: Error) => Awaitable<boolean>);
+    /** Gasless mode: `resolve` signs and hands the resolution here instead of sending a tx. `resolveRanked` and `resolveTeams` still send one */
+    relayResolution?: (signed: SignedResolution) => Awaitable<void>;
+    verifyStart?: Verifier<"StartVoted">;
+    verifyResolution?: Verifier<"ResolutionVoted">;
+    verifyCancel?: Verifier<"CancelVoted">;
+    onGameCreated?: GameHandler<"GameCreated">;
+    onPlayerJoined?: GameHandler<"PlayerJoined">;
+    onPlayerForfeited?: GameHandler<"PlayerForfeited">;
+    onPlayerConceded?: GameHandler<"PlayerConceded">;
+    onLobbyReady?: GameHandler<"LobbyReady">;
+    onGameStarted?: GameHandler<"GameStarted">;
+    onGameResolved?: GameHandler<"GameResolved">;
+    onGameExpired?: GameHandler<"GameExpired">;
+    onStartVoted?: GameHandler<"StartVoted">;
+    onResolutionVoted?: GameHandler<"ResolutionVoted">;
+    onGameCancelled?: GameHandler<"GameCancelled">;
+    onCancelVoted?: GameHandler<"CancelVoted">;
+}
+
+export declare class Governor {
+    constructor(escrow: EscrowClient, options?: GovernorOptions);
+
+    escrow: EscrowClient;
+    fee: number;
+    gameTypes: string[] | undefined;
+
+    startGame(gameId: bigint): Receipt;
+    resolveGame(gameId: bigint, losers: string[]): Promise<unknown>;
+    signResolution(gameId: bigint, losers: string[], options?: { ttl?: number; nonce?: bigint }): Promise<SignedResolution>;
+    resolveRanked(gameId: bigint, ranking: string[]): Receipt;
+    resolveTeams(gameId: bigint, losingTeams: number[]): Receipt;
+    resolveMany(results: { gameId: bigint; losers: string[] }[]): Receipt;
+    cancelGame(gameId: bigint): Receipt;
+    getMyGames(query?: Omit<GameQuery, "governor">): Promise<Game[]>;
+    /** Polls for events every `interval` ms; never resolves. */
+    start(interval?: number): Promise<never>;
+}
+
+export type TournamentEventName = ExtractAbiEventNames<TournamentAbi>;
+export type TournamentEventArgs<Name extends TournamentEventName> = EventArgs<TournamentAbi, Name>;
+
+type TournamentHandler<Name extends TournamentEventName> =
+    (tournamentId: bigint, tournament: Tournament, args: TournamentEventArgs<Name>) => Awaitable<void>;
+
+export interface TournamentGovernorOptions {
+    /** Plays one match and returns the winner's address */
+    playMatch?: (tournamentId: bigint, round: number, matchIndex: number, players: [string, string], tournament: Tournament) => Promise<string>;
+    cancelOnError?: boolean | ((tournamentId: bigint, tournament: Tournament, error: Error) => Awaitable<boolean>);
+    onTournamentCreated?: TournamentHandler<"TournamentCreated">;
+    onPlayerEntered?: TournamentHandler<"PlayerEntered">;
+    onPlayerWithdrew?: TournamentHandler<"PlayerWithdrew">;
+    onRoundStarted?: TournamentHandler<"RoundStarted">;
+    onMatchReported?: TournamentHandler<"MatchReported">;
+    onTournamentResolved?: TournamentHandler<"TournamentResolved">;
+    onTournamentExpired?: TournamentHandler<"TournamentExpired">;
+    onTournamentCancelled?: TournamentHandler<"TournamentCancelled">;
+}
+
+export declare class TournamentGovernor {
+    constructor(escrow: EscrowClient, options?: TournamentGovernorOptions);
+
+    escrow: EscrowClient;
+
+    reportMatch(tournamentId: bigint, matchIndex: number, winner: string): Receipt;
+    cancelTournament(tournamentId: bigint): Receipt;
+    getMyTournaments(query?: Omit<GameQuery, "governor" | "player">): Promise<(Tournament & { id: bigint })[]>;
+    start(interval?: number): Promise<never>;
+}
+
+export default EscrowClient;
@@ -1,26 +1,206 @@
 // src/index.js
 import { ethers } from "ethers";
 import defaultABI from "../contracts/abi.js";
+import defaultTournamentABI from "../contracts/tournamentAbi.js";
+import defaultSideBetsABI from "../contracts/sideBetsAbi.js";
+import defaultSeriesABI from "../contracts/seriesAbi.js";
+import defaultRpsABI from "../contracts/rpsAbi.js";
+import defaultBondsABI from "../contracts/bondsAbi.js";
+import defaultJackpotABI from "../contracts/jackpotAbi.js";
+
+const ERC20_ABI = [
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function name() view returns (string)",
+    "function nonces(address owner) view returns (uint256)",
+];
+
+// `team` argument for joins outside team games
+const NO_TEAM = 255;
+
+// `game.state` values (GameEscrowStorage.State); tournaments use the same numbering
+const GameState = Object.freeze({ Open: 0, Started: 1, Resolved: 2, Expired: 3, Cancelled: 4 });
+
+// Outcome hash a council governor's cancel vote is recorded under (see `getVote`)
+const CANCEL_OUTCOME = ethers.id("cancel");
+
+// Games (or tournaments) fetched per `getGamesByGovernor` (`getTournamentsByGovernor`) call when a Governor
+// (TournamentGovernor) recovers its started ones
+const RECOVERY_PAGE = 50n;
+
+const RESOLUTION_TYPES = {
+    Resolution: [
+        { name: "gameId", type: "uint256" }, { name: "losers", type: "address[]" }, { name: "governorFeePercentage", type: "uint256" },
+        { name: "nonce", type: "uint256" }, { name: "deadline", type: "uint256" },
+    ],
+};
+
+// RockPaperScissorsGovernor moves by enum value; 0 = not revealed
+const RPS_MOVES = ["", "rock", "paper", "scissors"];
+
+const JOIN_TYPES = {
+    Join: [
+        { name: "gameId", type: "uint256" }, { name: "player", type: "address" }, { name: "team", type: "uint8" },
+        { name: "referrer", type: "address" }, { name: "nonce", type: "uint256" }, { name: "deadline", type: "uint256" },
+    ],
+};
+
+// `joinGameWithSig` permit arguments when the player approved the escrow beforehand
+const NO_PERMIT = { deadline: 0n, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash };
+
+// ── Game types ──
+// Game types are short names ("coinflip") stored as bytes32; 32-byte hex strings pass through unchanged
+function encodeGameType(gameType) {
+    if (!gameType) return ethers.ZeroHash;
+    return ethers.isHexString(gameType, 32) ? gameType : ethers.encodeBytes32String(gameType);
+}
+
+function decodeGameType(raw) {
+    if (raw === ethers.ZeroHash) return "";
+    try { return ethers.decodeBytes32String(raw); } catch { return raw; }
+}
+
+// ── Merkle whitelists ──
+// Leaves are double-hashed ABI-encoded addresses, pairs are hashed sorted (OpenZeppelin MerkleProof)
+function merkleLeaf(address) {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    return ethers.keccak256(ethers.keccak256(coder.encode(["address"], [ethers.getAddress(address)])));
+}
+
+function merkleLayers(addresses) {
+    const leaves = [...new Set(addresses.map(merkleLeaf))].sort();
+    if (leaves.length === 0) throw new Error("Whitelist is empty");
+    const layers = [leaves];
+    while (layers[layers.length - 1].length > 1) {
+        const prev = layers[layers.length - 1], next = [];
+        for (let i = 0; i < prev.length; i += 2) {
+            next.push(i + 1 < prev.length ? ethers.keccak256(ethers.concat([prev[i], prev[i + 1]].sort())) : prev[i]);
+        }
+        layers.push(next);
+    }
+    return layers;
+}
 
 /**
  * Normalizes a raw contract game struct into a plain object.
- * - `state`:          Number — 0 = Open, 1 = Started, 2 = Resolved
- * - `stakeAmount`:    BigInt (wei)
- * - `maxPlayers`:     Number
+ * - `state`:          Number — 0 = Open, 1 = Started, 2 = Resolved, 3 = Expired, 4 = Cancelled
+ * - `token`:          String — ERC-20 stake token, ZeroAddress for native ETH
+ * - `stakeAmount`:    BigInt (wei, or token base units)
+ * - `maxPlayers`:     Number — a join that fills the lobby starts the game
+ * - `minPlayers`:     Number — active players needed to start, 0 = no minimum
+ * - `joinDeadline`:   Number — unix seconds, 0 = none; after it anyone may `closeLobby`
  * - `activePlayers`:  Number
+ * - `resolutionTimeout`: Number — seconds the governor has after start, 0 = none
+ * - `resolveDeadline`:   Number — unix seconds, 0 until started (or no timeout)
+ * - `resolvedAt`:        Number — unix seconds of the governor's resolution, 0 = none; starts the bond challenge window
+ * - `maxGovernorFeePercentage`: Number — governor fee cap agreed at creation (0–100)
+ * - `houseFeePercentage`:       Number — house fee snapshot taken at creation (0–100)
+ * - `concedeRefundBps`: Number — basis points of the stake returned to a player who concedes
+ * - `payoutSchedule`: Number[] — basis points per rank, empty = equal split among winners
+ * - `governors`:      String[] — M-of-N council, empty = `governor` alone
+ * - `governorThreshold`: Number — votes needed to start/resolve (1 for single-governor games)
+ * - `whitelistRoot`:  String — Merkle root of invited addresses, ZeroHash = none
+ * - `teamCount`:      Number — 0 = free-for-all
+ * - `maxTeamSize`:    Number — players per team, 0 = unlimited
+ * - `playerTeams`:    Number[] — team of `players[i]` (0-based), empty for free-for-all games
+ * - `gameType`:       String — name set at creation (e.g. "coinflip"), "" = untyped; hex when not a short name
+ * - `metadataURI`:    String — rules or description link, "" = none
+ * - `metadata`:       String — hex bytes of custom game settings, "0x" = none
+ * - `governorHooks`:  Boolean — governor is an IGameGovernor contract; anyone can settle with `resolveByGovernor`
+ * - `minGovernorBond`: BigInt — bond the governor must keep in the escrow's `bondRegistry` for joins, 0 = none
  * - Array fields are plain JS arrays
  */
 function normalizeGame(raw) {
     return {
         governor:      raw.governor,
+        token:         raw.token,
         stakeAmount:   raw.stakeAmount,
         maxPlayers:    Number(raw.maxPlayers),
+        minPlayers:    Number(raw.minPlayers),
+        joinDeadline:  Number(raw.joinDeadline),
         activePlayers: Number(raw.activePlayers),
+        resolutionTimeout: Number(raw.resolutionTimeout),
+        resolveDeadline:   Number(raw.resolveDeadline),
+        resolvedAt:        Number(raw.resolvedAt),
+        maxGovernorFeePercentage: Number(raw.maxGovernorFeePercentage),
+        houseFeePercentage:       Number(raw.houseFeePercentage),
+        concedeRefundBps:         Number(raw.concedeRefundBps),
         state:         Number(raw.state),
         players:       Array.from(raw.players),
         losers:        Array.from(raw.losers),
         whitelist:     Array.from(raw.whitelist),
         forfeited:     Array.from(raw.forfeited),
+        payoutSchedule: Array.from(raw.payoutSchedule, Number),
+        governors:     Array.from(raw.governors),
+        governorThreshold: Number(raw.governorThreshold),
+        whitelistRoot: raw.whitelistRoot,
+        teamCount:     Number(raw.teamCount),
+        maxTeamSize:   Number(raw.maxTeamSize),
+        playerTeams:   Array.from(raw.playerTeams, Number),
+        gameType:      decodeGameType(raw.gameType),
+        metadataURI:   raw.metadataURI,
+        metadata:      raw.metadata,
+        governorHooks: raw.governorHooks,
+        minGovernorBond: raw.minGovernorBond,
+    };
+}
+
+/**
+ * Normalizes a raw TournamentEscrow struct.
+ * - `state`:     Number — 0 = Open, 1 = Started, 2 = Resolved, 3 = Expired, 4 = Cancelled
+ * - `entryFee`:  BigInt (wei, or token base units)
+ * - `size`:      Number — entrants; the bracket starts once full
+ * - `round`:     Number — current round, 0 = first
+ * - `bracket`:   String[] — players in the current round; match i is `bracket[2i]` vs `bracket[2i + 1]`
+ * - `winners`:   String[] — winner of each current-round match, ZeroAddress = not reported yet
+ * - `matchGames`: BigInt[] — escrow game id of each current-round match (see `getGame`)
+ * - `champion`, `runnerUp`: String — ZeroAddress until the final is reported
+ * - Timeouts and deadlines are Numbers (seconds), fee fields Numbers (percent), `runnerUpBps` basis points
+ */
+function normalizeTournament(raw) {
+    return {
+        governor:      raw.governor,
+        token:         raw.token,
+        entryFee:      raw.entryFee,
+        size:          Number(raw.size),
+        resolutionTimeout: Number(raw.resolutionTimeout),
+        resolveDeadline:   Number(raw.resolveDeadline),
+        governorFeePercentage: Number(raw.governorFeePercentage),
+        houseFeePercentage:    Number(raw.houseFeePercentage),
+        runnerUpBps:   Number(raw.runnerUpBps),
+        state:         Number(raw.state),
+        round:         Number(raw.round),
+        players:       Array.from(raw.players),
+        bracket:       Array.from(raw.bracket),
+        winners:       Array.from(raw.winners),
+        matchGames:    Array.from(raw.matchGames),
+        champion:      raw.champion,
+        runnerUp:      raw.runnerUp,
+    };
+}
+
+/**
+ * Normalizes a Jackpot round.
+ * - `startTime`, `endTime`: Number — unix seconds the round takes entries between
+ * - `drawBlock`:  Number — block whose hash draws the round, 0 while it is open
+ * - `entries`:    BigInt — tickets sold; `pot` and `prize` are BigInt in the jackpot token
+ * - `winner`:     String — ZeroAddress until drawn
+ * - `refunded`:   Boolean — the draw block's hash expired first; players collect their entries back instead
+ */
+function normalizeJackpotRound(raw) {
+    return {
+        startTime:          Number(raw.startTime),
+        endTime:            Number(raw.endTime),
+        drawBlock:          Number(raw.drawBlock),
+        houseFeePercentage: Number(raw.houseFeePercentage),
+        drawn:              raw.drawn,
+        refunded:           raw.refunded,
+        entries:            raw.entries,
+        pot:                raw.pot,
+        winner:             raw.winner,
+        prize:              raw.prize,
+        seed:               raw.seed,
     };
 }
 
@@ -30,11 +210,33 @@ class EscrowClient {
         contractAddress,
         providerUrl = "https://eth.llamarpc.com",
         contractABI = defaultABI,
+        tournamentAddress,
+        tournamentABI = defaultTournamentABI,
+        sideBetsAddress,
+        sideBetsABI = defaultSideBetsABI,
+        seriesAddress,
+        seriesABI = defaultSeriesABI,
+        rpsAddress,
+        rpsABI = defaultRpsABI,
+        bondsAddress,
+        bondsABI = defaultBondsABI,
+        jackpotAddress,
+        jackpotABI = defaultJackpotABI,
+        referrer = ethers.ZeroAddress,
     }) {
         if (!privateKey) throw new Error("Private key is required");
         this.provider = new ethers.JsonRpcProvider(providerUrl);
         this.wallet = new ethers.Wallet(privateKey, this.provider);
         this.contract = new ethers.Contract(contractAddress, contractABI, this.wallet);
+        this.tournaments = tournamentAddress ? new ethers.Contract(tournamentAddress, tournamentABI, this.wallet) : null;
+        this.sideBets = sideBetsAddress ? new ethers.Contract(sideBetsAddress, sideBetsABI, this.wallet) : null;
+        this.series = seriesAddress ? new ethers.Contract(seriesAddress, seriesABI, this.wallet) : null;
+        this.rps = rpsAddress ? new ethers.Contract(rpsAddress, rpsABI, this.wallet) : null;
+        this.bonds = bondsAddress ? new ethers.Contract(bondsAddress, bondsABI, this.wallet) : null;
+        this.jackpot = jackpotAddress ? new ethers.Contract(jackpotAddress, jackpotABI, this.wallet) : null;
+        // Frontends embedding the games pass their own address to earn a share of the house fee. The frontend's own
+        // wallet can't refer itself (the escrow reverts with InvalidReferrer), so it plays without a default referrer.
+        this.referrer = referrer.toLowerCase() === this.wallet.address.toLowerCase() ? ethers.ZeroAddress : referrer;
     }
 
     async _tx(fn, retries = 3) {
@@ -47,24 +249,315 @@ class EscrowClient {
         }
     }
 
+    _erc20(token) { return new ethers.Contract(token, ERC20_ABI, this.wallet); }
+
+    // Approves `spender` (the escrow by default) for `amount` if the current allowance is short
+    async _approve(token, amount, spender = this.contract.target) {
+        const erc20 = this._erc20(token);
+        if (await erc20.allowance(this.wallet.address, spender) >= amount) return;
+        await this._tx(() => erc20.approve(spender, amount));
+    }
+
+    _tournaments() {
+        if (!this.tournaments) throw new Error("No tournamentAddress configured");
+        return this.tournaments;
+    }
+
+    _sideBets() {
+        if (!this.sideBets) throw new Error("No sideBetsAddress configured");
+        return this.sideBets;
+    }
+
+    _series() {
+        if (!this.series) throw new Error("No seriesAddress configured");
+        return this.series;
+    }
+
+    _rps() {
+        if (!this.rps) throw new Error("No rpsAddress configured");
+        return this.rps;
+    }
+
+    _bonds() {
+        if (!this.bonds) throw new Error("No bondsAddress configured");
+        return this.bonds;
+    }
+
+    _jackpot() {
+        if (!this.jackpot) throw new Error("No jackpotAddress configured");
+        return this.jackpot;
+    }
+
+    // Game id from a createGame receipt's GameCreated event
+    _createdGameId(receipt) {
+        for (const log of receipt.logs) {
+            const parsed = this.contract.interface.parseLog(log);
+            if (parsed?.name === 'GameCreated') return parsed.args.gameId;
+        }
+        throw new Error("No GameCreated event in receipt");
+    }
+
+    // EIP-2612 permit signature for the escrow, valid for `ttl` seconds
+    async _signPermit(token, value, ttl = 3600) {
+        const erc20 = this._erc20(token);
+        const [name, nonce, { chainId }] = await Promise.all([erc20.name(), erc20.nonces(this.wallet.address), this.provider.getNetwork()]);
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + ttl);
+        const signature = await this.wallet.signTypedData(
+            { name, version: "1", chainId, verifyingContract: token },
+            { Permit: [
+                { name: "owner", type: "address" }, { name: "spender", type: "address" }, { name: "value", type: "uint256" },
+                { name: "nonce", type: "uint256" }, { name: "deadline", type: "uint256" },
+            ] },
+            { owner: this.wallet.address, spender: this.contract.target, value, nonce, deadline },
+        );
+        const { v, r, s } = ethers.Signature.from(signature);
+        return { deadline, v, r, s };
+    }
+
     // ── Write ──
-    createGame(stakeAmount, maxPlayers = 0, whitelist = []) {
-        return this._tx(() => this.contract.createGame(this.wallet.address, stakeAmount, maxPlayers, whitelist, { value: stakeAmount }));
+    /**
+     * @param {Object} [opts]
+     * @param {string} [opts.token=ZeroAddress]    ERC-20 stake token, ZeroAddress for ETH
+     * @param {number} [opts.resolutionTimeout=0]  Seconds after start before players may claim a refund, 0 = never
+     * @param {number} [opts.maxGovernorFee=0]     Highest governor fee percentage the governor may charge at resolve
+     * @param {number[]} [opts.payoutSchedule=[]]  Basis points per rank (e.g. [5000, 3000, 2000]), empty = equal split
+     * @param {string}   [opts.governor]           Fee-receiving governor, defaults to this wallet
+     * @param {string[]} [opts.governors=[]]       M-of-N council (must include `governor`), empty = single governor
+     * @param {number}   [opts.governorThreshold=0] Council votes needed to start and resolve
+     * @param {string}   [opts.whitelistRoot=ZeroHash] Merkle root from `EscrowClient.merkleRoot` — cheap invite lists of any size
+     * @param {number}   [opts.minPlayers=0]        Active players needed before the game can start
+     * @param {number}   [opts.joinDeadline=0]      Unix seconds when joins close, 0 = open until started
+     * @param {number}   [opts.concedeRefundBps=0]  Basis points of the stake refunded to a player who concedes mid-game
+     * @param {number}   [opts.teamCount=0]         Team game with this many teams (2+), 0 = free-for-all
+     * @param {number}   [opts.maxTeamSize=0]       Players per team, 0 = unlimited
+     * @param {number}   [opts.team=0]              Team the creator joins in team games
+     * @param {string}   [opts.gameType]            Short name (≤ 31 bytes) governors filter on, e.g. "coinflip"
+     * @param {string}   [opts.metadataURI='']      Rules or description link, e.g. ipfs://…
+     * @param {string}   [opts.metadata='0x']       Hex bytes of custom game settings, stored as-is
+     * @param {string}   [opts.referrer]            Earns its referral tier of the house fee on this wallet's stake, defaults to the client's `referrer`
+     * @param {bigint}   [opts.minGovernorBond=0n]  Wei of bond `governor` must keep in the escrow's `bondRegistry`; joins revert while it doesn't
+     * @returns {Promise<bigint>} The new game id, read from the GameCreated event. A game with `maxPlayers` 1 is already started.
+     */
+    async createGame(stakeAmount, maxPlayers = 0, whitelist = [], {
+        token = ethers.ZeroAddress, resolutionTimeout = 0, maxGovernorFee = 0, payoutSchedule = [],
+        governor = this.wallet.address, governors = [], governorThreshold = 0, whitelistRoot = ethers.ZeroHash,
+        minPlayers = 0, joinDeadline = 0, concedeRefundBps = 0, teamCount = 0, maxTeamSize = 0, team = 0,
+        gameType, metadataURI = "", metadata = "0x", referrer = this.referrer, minGovernorBond = 0n,
+    } = {}) {
+        const config = {
+            governor, token, stakeAmount, maxPlayers, minPlayers, joinDeadline, resolutionTimeout,
+            maxGovernorFeePercentage: maxGovernorFee, concedeRefundBps, payoutSchedule, whitelist,
+            teamCount, maxTeamSize, creatorTeam: team, whitelistRoot, governors, governorThreshold,
+            gameType: encodeGameType(gameType), metadataURI, metadata, referrer, minGovernorBond,
+        };
+        if (token !== ethers.ZeroAddress) await this._approve(token, stakeAmount);
+        const receipt = await this._tx(() => this.contract.createGame(config, { value: token === ethers.ZeroAddress ? stakeAmount : 0n }));
+        return this._createdGameId(receipt);
+    }
+
+    /**
+     * Joins a game. Token games approve the escrow first, or sign an EIP-2612 permit when `permit` is set.
+     * Merkle-whitelisted games need `proof` (see `EscrowClient.merkleProof`). Team games need `team` (0-based).
+     * A `referrer` (defaults to the client's) earns its tier of the house fee on this stake.
+     * The escrow only takes permits on plain joins, so `permit` throws together with `proof`, `team` or a referrer
+     * (pass `referrer: ethers.ZeroAddress` to skip the client's default).
+     */
+    async joinGame(gameId, stakeAmount, { token = ethers.ZeroAddress, permit = false, proof, team, referrer = this.referrer } = {}) {
+        if (permit && (proof || team !== undefined || referrer !== ethers.ZeroAddress)) {
+            throw new Error("permit only works for plain joins: drop it, or the proof, team and referrer (referrer: ZeroAddress)");
+        }
+        if (referrer !== ethers.ZeroAddress) {
+            const args = [gameId, team ?? NO_TEAM, proof ?? [], referrer];
+            if (token === ethers.ZeroAddress) return this._tx(() => this.contract.joinWithReferrer(...args, { value: stakeAmount }));
+            await this._approve(token, stakeAmount);
+            return this._tx(() => this.contract.joinWithReferrer(...args));
+        }
+        if (team !== undefined) {
+            if (token === ethers.ZeroAddress) return this._tx(() => this.contract.joinTeam(gameId, team, proof ?? [], { value: stakeAmount }));
+            await this._approve(token, stakeAmount);
+            return this._tx(() => this.contract.joinTeam(gameId, team, proof ?? []));
+        }
+        if (proof) {
+            if (token === ethers.ZeroAddress) return this._tx(() => this.contract.joinGameWithProof(gameId, proof, { value: stakeAmount }));
+            await this._approve(token, stakeAmount);
+            return this._tx(() => this.contract.joinGameWithProof(gameId, proof));
+        }
+        if (token === ethers.ZeroAddress) return this._tx(() => this.contract.joinGame(gameId, { value: stakeAmount }));
+        if (permit) {
+            const { deadline, v, r, s } = await this._signPermit(token, stakeAmount);
+            return this._tx(() => this.contract.joinGameWithPermit(gameId, deadline, v, r, s));
+        }
+        await this._approve(token, stakeAmount);
+        return this._tx(() => this.contract.joinGame(gameId));
     }
-    joinGame(gameId, stakeAmount)          { return this._tx(() => this.contract.joinGame(gameId, { value: stakeAmount })); }
     startGame(gameId)                      { return this._tx(() => this.contract.startGame(gameId)); }
+    /** Player only, Started games: become a loser now and get back the game's `concedeRefundBps` share of the stake. */
+    concede(gameId)                        { return this._tx(() => this.contract.concede(gameId)); }
+    /** After the join deadline: starts the game if `minPlayers` joined, otherwise refunds it. Callable by anyone. */
+    closeLobby(gameId)                     { return this._tx(() => this.contract.closeLobby(gameId)); }
     resolveGame(gameId, losers, fee = 0)   { return this._tx(() => this.contract.resolveGame(gameId, losers, fee)); }
+    resolveRanked(gameId, ranking, fee = 0) { return this._tx(() => this.contract.resolveRanked(gameId, ranking, fee)); }
+    /** Team games: every active member of `losingTeams` loses, the other teams' members split the pot. */
+    resolveTeams(gameId, losingTeams, fee = 0) { return this._tx(() => this.contract.resolveTeams(gameId, losingTeams, fee)); }
+    /** Games with `governorHooks`: settles from the governor contract's `computeLosers` once it's ready. Callable by anyone. */
+    resolveByGovernor(gameId)              { return this._tx(() => this.contract.resolveByGovernor(gameId)); }
+    cancelNonce(nonce)                     { return this._tx(() => this.contract.cancelNonce(nonce)); }
+
+    /**
+     * Sends several escrow calls in one transaction — all succeed or none do. Each call is `[functionName, args]`,
+     * e.g. `[['startGame', [1n]], ['resolveGame', [2n, [loser], 0]]]`. Batched calls can't send ETH, so ETH stakes
+     * (joins, ETH game creation) must go in their own transaction.
+     */
+    multicall(calls) {
+        const data = calls.map(([fn, args]) => this.contract.interface.encodeFunctionData(fn, args));
+        return this._tx(() => this.contract.multicall(data));
+    }
+    /** Resolves many games in one transaction. `resolutions` is `[{ gameId, losers, fee = 0 }]`. */
+    resolveMany(resolutions) {
+        return this.multicall(resolutions.map(({ gameId, losers, fee = 0 }) => ['resolveGame', [gameId, losers, fee]]));
+    }
+
+    /**
+     * Signs an EIP-712 resolution as the game's governor — no gas needed. Anyone can submit it with `submitResolution`.
+     * Nonces are random (unordered), so signatures for different games never block each other.
+     * @returns {Promise<{gameId: bigint, losers: string[], governorFeePercentage: number, nonce: bigint, deadline: bigint, signature: string}>}
+     */
+    async signResolution(gameId, losers, fee = 0, { ttl = 3600, nonce = ethers.toBigInt(ethers.randomBytes(32)) } = {}) {
+        const [, name, version, chainId, verifyingContract] = await this.contract.eip712Domain();
+        const resolution = {
+            gameId: BigInt(gameId), losers, governorFeePercentage: fee, nonce,
+            deadline: BigInt(Math.floor(Date.now() / 1000) + ttl),
+        };
+        const signature = await this.wallet.signTypedData({ name, version, chainId, verifyingContract }, RESOLUTION_TYPES, resolution);
+        return { ...resolution, signature };
+    }
+
+    /** Submits a resolution signed by the governor; this wallet pays the gas. */
+    submitResolution({ gameId, losers, governorFeePercentage, nonce, deadline, signature }) {
+        return this._tx(() => this.contract.resolveGameWithSig(gameId, losers, governorFeePercentage, nonce, deadline, signature));
+    }
+
+    /**
+     * Signs a gasless join (EIP-712) for a relayer to submit with `submitJoin` — see `server/joinRelayer.js`.
+     * Only token games and free games qualify, since the stake is pulled from this wallet. Token games also get an
+     * EIP-2612 permit for the stake unless `permit` is false (approve the escrow yourself then). Nonces are unordered
+     * and shared with `cancelNonce`, which revokes an unsubmitted join.
+     * @returns {Promise<{request: Object, proof: string[], signature: string, permit: Object}>}
+     */
+    async signJoin(gameId, { team, proof = [], referrer = this.referrer, permit = true, ttl = 3600, nonce = ethers.toBigInt(ethers.randomBytes(32)) } = {}) {
+        const game = await this.getGame(gameId);
+        if (game.token === ethers.ZeroAddress && game.stakeAmount > 0n) throw new Error("ETH games can't be joined by signature");
+
+        const [, name, version, chainId, verifyingContract] = await this.contract.eip712Domain();
+        const request = {
+            gameId: BigInt(gameId), player: this.wallet.address, team: team ?? NO_TEAM, referrer, nonce,
+            deadline: BigInt(Math.floor(Date.now() / 1000) + ttl),
+        };
+        const signature = await this.wallet.signTypedData({ name, version, chainId, verifyingContract }, JOIN_TYPES, request);
+        const usePermit = permit && game.token !== ethers.ZeroAddress && game.stakeAmount > 0n;
+        return { request, proof, signature, permit: usePermit ? await this._signPermit(game.token, game.stakeAmount, ttl) : NO_PERMIT };
+    }
+
+    /** Submits a join signed with `signJoin`; this wallet pays the gas and the signer becomes the player. */
+    submitJoin({ request, proof = [], signature, permit = NO_PERMIT }) {
+        return this._tx(() => this.contract.joinGameWithSig(request, proof, signature, permit.deadline, permit.v, permit.r, permit.s));
+    }
+    refundExpiredGame(gameId)              { return this._tx(() => this.contract.refundExpiredGame(gameId)); }
+    /** Governor only: aborts an Open or Started game and credits every remaining player their full stake. */
+    cancelGame(gameId)                     { return this._tx(() => this.contract.cancelGame(gameId)); }
+    claim(token = ethers.ZeroAddress)      { return this._tx(() => this.contract.claim(token)); }
+    claimFor(account, token = ethers.ZeroAddress) { return this._tx(() => this.contract.claimFor(account, token)); }
     setHouseFee(pct)                       { return this._tx(() => this.contract.setHouseFee(pct)); }
-    withdraw()                             { return this._tx(() => this.contract.withdraw()); }
+    /** Owner only: sends accumulated house fees for `token` to the fee recipient. */
+    withdraw(token = ethers.ZeroAddress)   { return this._tx(() => this.contract.withdraw(token)); }
+    setFeeRecipient(address)               { return this._tx(() => this.contract.setFeeRecipient(address)); }
+    /** Owner only: blocks creating and joining games. Starting, resolving, refunds and claims keep working. */
+    pause()                                { return this._tx(() => this.contract.setPaused(true)); }
+    unpause()                              { return this._tx(() => this.contract.setPaused(false)); }
+    /** Owner only: nominates `newOwner`, who takes over once they call `acceptOwnership`. ZeroAddress cancels. */
+    transferOwnership(newOwner)            { return this._tx(() => this.contract.transferOwnership(newOwner)); }
+    acceptOwnership()                      { return this._tx(() => this.contract.acceptOwnership()); }
+    /** Owner only: lets `host` (e.g. the TournamentEscrow) open hosted games for the stakes it holds. */
+    setHost(host, allowed = true)          { return this._tx(() => this.contract.setHost(host, allowed)); }
+    /** Owner only: `referrer` earns `bps` basis points of the house fee on each player it brings. 0 removes it. */
+    setReferralTier(referrer, bps)         { return this._tx(() => this.contract.setReferralTier(referrer, bps)); }
+    /** Owner only: the GovernorBonds that games with a `minGovernorBond` check. ZeroAddress blocks joins to those games. */
+    setBondRegistry(address)               { return this._tx(() => this.contract.setBondRegistry(address)); }
 
     // ── Read ──
     async getGame(gameId) { return normalizeGame(await this.contract.getGame(gameId)); }
-    getBalance()           { return this.provider.getBalance(this.wallet.address); }
 
-    async getGames({ governor = ethers.ZeroAddress, state = 'all', offset = 0n, limit = 50n } = {}) {
+    /** A council governor's votes: `{ votedStart, outcome, outcomeVotes }` (outcome is a bytes32 hash, ZeroHash if none). */
+    async getVote(gameId, governor = this.wallet.address) {
+        const [votedStart, outcome, outcomeVotes] = await this.contract.getVote(gameId, governor);
+        return { votedStart, outcome, outcomeVotes: Number(outcomeVotes) };
+    }
+    getBalance(token = ethers.ZeroAddress) {
+        return token === ethers.ZeroAddress ? this.provider.getBalance(this.wallet.address) : this._erc20(token).balanceOf(this.wallet.address);
+    }
+    getHouseFees(token = ethers.ZeroAddress) { return this.contract.accumulatedHouseFees(token); }
+
+    /** Admin state: `{ owner, pendingOwner, feeRecipient, paused, houseFeePercentage }` (pendingOwner is ZeroAddress when none). */
+    async getAdmin() {
+        const [owner, pendingOwner, feeRecipient, paused, houseFeePercentage, bondRegistry] = await Promise.all([
+            this.contract.owner(), this.contract.pendingOwner(), this.contract.feeRecipient(), this.contract.paused(), this.contract.houseFeePercentage(),
+            this.contract.bondRegistry(),
+        ]);
+        return { owner, pendingOwner, feeRecipient, paused, houseFeePercentage: Number(houseFeePercentage), bondRegistry };
+    }
+    /** Referral tier of `referrer` in basis points of the house fee (Number), 0 = not a referrer. */
+    async getReferralTier(referrer = this.wallet.address) { return Number(await this.contract.referralTiers(referrer)); }
+    /** Lifetime referral earnings (BigInt). They are credited like winnings, so withdraw them with `claim(token)`. */
+    getReferralEarnings(referrer = this.wallet.address, token = ethers.ZeroAddress) { return this.contract.referralEarnings(referrer, token); }
+    /** Winnings, fees and refunds credited to `account` but not yet claimed (BigInt). */
+    getClaimable(account = this.wallet.address, token = ethers.ZeroAddress) { return this.contract.claimable(account, token); }
+
+    /** True if an Open lobby passed its join deadline and can be closed. `now` is unix seconds (defaults to the latest block). */
+    async isLobbyClosable(game, now) {
+        if (game.state !== 0 || game.joinDeadline === 0) return false;
+        now ??= (await this.provider.getBlock('latest')).timestamp;
+        return now > game.joinDeadline;
+    }
+
+    /** True if the governor missed the resolve deadline. `now` is unix seconds (defaults to the latest block). */
+    async isExpired(game, now) {
+        if (game.state !== 1 || game.resolveDeadline === 0) return false;
+        now ??= (await this.provider.getBlock('latest')).timestamp;
+        return now > game.resolveDeadline;
+    }
+
+    /** Started games past their resolve deadline where this wallet is still an active player. */
+    async getExpiredGames(opts = {}) {
+        const me = this.wallet.address.toLowerCase();
+        const [games, { timestamp }] = await Promise.all([
+            this.getGames({ player: this.wallet.address, ...opts, state: 'started' }), this.provider.getBlock('latest'),
+        ]);
+        const checks = await Promise.all(games.map(g => this.isExpired(g, timestamp)));
+        return games.filter((g, i) => checks[i] && !g.forfeited.some(p => p.toLowerCase() === me));
+    }
+
+    /**
+     * Lists games. With `player` or `governor` set, reads that address's on-chain index: newest first, `offset`/`limit`
+     * page through the index and `state` filters within the page. Without either, scans game ids from `offset`.
+     * @param {Object} [query]
+     * @param {string} [query.player]      Games this address joined or created
+     * @param {string} [query.governor]    Games this address governs (council members included)
+     * @param {'all'|'open'|'started'|'resolved'} [query.state='all']  `resolved` also covers Expired and Cancelled
+     */
+    async getGames({ governor = ethers.ZeroAddress, player, state = 'all', offset = 0n, limit = 50n } = {}) {
         const inc = s => state === 'all' || state === s;
-        const ids = await this.contract.getGames(governor, inc('resolved'), inc('started'), inc('open'), offset, limit);
-        return Promise.all(ids.map(async id => ({ id, ...await this.getGame(id) })));
+        if (!player && governor === ethers.ZeroAddress) {
+            const ids = await this.contract.getGames(governor, inc('resolved'), inc('started'), inc('open'), offset, limit);
+            return Promise.all(ids.map(async id => ({ id, ...await this.getGame(id) })));
+        }
+
+        const [ids] = player
+            ? await this.contract.getGamesByPlayer(player, offset, limit)
+            : await this.contract.getGamesByGovernor(governor, offset, limit);
+        const games = await Promise.all(ids.map(async id => ({ id, ...await this.getGame(id) })));
+        const gov = governor.toLowerCase();
+        return games.filter(g => inc(g.state === 0 ? 'open' : g.state === 1 ? 'started' : 'resolved')
+            && (governor === ethers.ZeroAddress || g.governor.toLowerCase() === gov || g.governors.some(a => a.toLowerCase() === gov)));
     }
 
     watchGames({ interval = 10000, ...query } = {}, callback) {
@@ -82,33 +575,409 @@ class EscrowClient {
     }
 
     asGovernor(opts) { return new Governor(this, opts); }
+
+    // ── Tournaments (TournamentEscrow at `tournamentAddress`) ──
+    /**
+     * Creates a single-elimination tournament and enters this wallet as the first seed.
+     * @param {Object} [opts]
+     * @param {string} [opts.token=ZeroAddress]   ERC-20 entry token, ZeroAddress for ETH
+     * @param {string} [opts.governor]            Reports match results and earns the fee, defaults to this wallet
+     * @param {number} [opts.resolutionTimeout=0] Seconds after the bracket starts before entrants may claim a refund, 0 = never
+     * @param {number} [opts.governorFee=0]       Governor fee percentage, paid when the final is reported
+     * @param {number} [opts.runnerUpBps=0]       Basis points of the prize for the losing finalist
+     */
+    async createTournament(entryFee, size, {
+        token = ethers.ZeroAddress, governor = this.wallet.address, resolutionTimeout = 0, governorFee = 0, runnerUpBps = 0,
+    } = {}) {
+        const tournaments = this._tournaments();
+        const config = { governor, token, entryFee, size, resolutionTimeout, governorFeePercentage: governorFee, runnerUpBps };
+        if (token === ethers.ZeroAddress) return this._tx(() => tournaments.createTournament(config, { value: entryFee }));
+        await this._approve(token, entryFee, tournaments.target);
+        return this._tx(() => tournaments.createTournament(config));
+    }
+
+    async enterTournament(tournamentId, entryFee, { token = ethers.ZeroAddress } = {}) {
+        const tournaments = this._tournaments();
+        if (token === ethers.ZeroAddress) return this._tx(() => tournaments.enter(tournamentId, { value: entryFee }));
+        await this._approve(token, entryFee, tournaments.target);
+        return this._tx(() => tournaments.enter(tournamentId));
+    }
+    /** Leave an Open tournament; the entry fee is credited back (see `claimTournament`). */
+    withdrawEntry(tournamentId)            { return this._tx(() => this._tournaments().withdrawEntry(tournamentId)); }
+    /** Governor only: `winner` of current-round match `matchIndex`. The last report of a round starts the next. */
+    reportMatch(tournamentId, matchIndex, winner) { return this._tx(() => this._tournaments().reportMatch(tournamentId, matchIndex, winner)); }
+    /** Governor only: calls off an Open or Started tournament and refunds every entrant. */
+    cancelTournament(tournamentId)         { return this._tx(() => this._tournaments().cancelTournament(tournamentId)); }
+    refundExpiredTournament(tournamentId)  { return this._tx(() => this._tournaments().refundExpiredTournament(tournamentId)); }
+    /** Prizes, fees and refunds are credited in the tournament contract and claimed from it separately. */
+    claimTournament(token = ethers.ZeroAddress) { return this._tx(() => this._tournaments().claim(token)); }
+
+    async getTournament(tournamentId) { return normalizeTournament(await this._tournaments().getTournament(tournamentId)); }
+    getTournamentClaimable(account = this.wallet.address, token = ethers.ZeroAddress) { return this._tournaments().claimable(account, token); }
+
+    /**
+     * Tournaments `governor` runs, newest first; `state` filters within the page.
+     * @param {'all'|'open'|'started'|'resolved'} [query.state='all']  `resolved` also covers Expired and Cancelled
+     */
+    async getTournaments({ governor = this.wallet.address, state = 'all', offset = 0n, limit = 50n } = {}) {
+        const [ids] = await this._tournaments().getTournamentsByGovernor(governor, offset, limit);
+        const list = await Promise.all(ids.map(async id => ({ id, ...await this.getTournament(id) })));
+        return list.filter(t => state === 'all' || state === (t.state === 0 ? 'open' : t.state === 1 ? 'started' : 'resolved'));
+    }
+
+    asTournamentGovernor(opts) { return new TournamentGovernor(this, opts); }
+
+    // ── Spectator side bets (SideBets at `sideBetsAddress`) ──
+    /**
+     * Backs `player` to win an Open or Started game. Bets are in the game's stake token (`token`, ZeroAddress = ETH).
+     * Governors and players of the game can't bet. Betting closes once a player concedes or an IGameGovernor reports the outcome ready.
+     */
+    async placeBet(gameId, player, amount, { token = ethers.ZeroAddress } = {}) {
+        const sideBets = this._sideBets();
+        if (token === ethers.ZeroAddress) return this._tx(() => sideBets.placeBet(gameId, player, amount, { value: amount }));
+        await this._approve(token, amount, sideBets.target);
+        return this._tx(() => sideBets.placeBet(gameId, player, amount));
+    }
+    /** Once the game is Resolved, Expired or Cancelled: credits `bettor`'s winnings or refund (see `claimBets`). */
+    collectBets(gameId, bettor = this.wallet.address) { return this._tx(() => this._sideBets().collect(gameId, bettor)); }
+    claimBets(token = ethers.ZeroAddress)  { return this._tx(() => this._sideBets().claim(token)); }
+
+    /** Backing per player: `{ players, amounts, total }` (amounts BigInt, in `game.players` order). */
+    async getBetPool(gameId) {
+        const [players, amounts, total] = await this._sideBets().getPool(gameId);
+        return { players: Array.from(players), amounts: Array.from(amounts), total };
+    }
+    /** `bettor`'s bets on a game: `{ players, amounts, collected }`. */
+    async getBets(gameId, bettor = this.wallet.address) {
+        const [players, amounts, collected] = await this._sideBets().getBets(gameId, bettor);
+        return { players: Array.from(players), amounts: Array.from(amounts), collected };
+    }
+    getBetClaimable(account = this.wallet.address, token = ethers.ZeroAddress) { return this._sideBets().claimable(account, token); }
+
+    // ── Series and rematches (GameSeries at `seriesAddress`) ──
+    /**
+     * Creates a rematch of a finished game: same governor(s), token, stake and rules, whitelisted to its non-forfeited
+     * players and full once they all rejoin. Must be called by one of those players. When the game is part of a series
+     * (and `seriesAddress` is set) the series contract opens and links the rematch in one transaction
+     * (`GameSeries.rematch`); token stakes are then approved to the series contract. Returns the new game id.
+     */
+    async rematch(gameId) {
+        const game = await this.getGame(gameId);
+        if (game.state < 2) throw new Error("Game not finished");
+        const players = game.players.filter(p => !game.forfeited.includes(p));
+        const seat = game.players.findIndex(p => p.toLowerCase() === this.wallet.address.toLowerCase());
+        if (seat === -1 || game.forfeited.includes(game.players[seat])) throw new Error("Only a player of the game can rematch");
+
+        const seriesId = this.series ? await this.getSeriesForGame(gameId) : null;
+        if (seriesId !== null) {
+            const series = this._series();
+            if (game.token !== ethers.ZeroAddress) await this._approve(game.token, game.stakeAmount, series.target);
+            const value = game.token === ethers.ZeroAddress ? game.stakeAmount : 0n;
+            return this._createdGameId(await this._tx(() => series.rematch(seriesId, { value })));
+        }
+
+        return this.createGame(game.stakeAmount, players.length, players, {
+            token: game.token, resolutionTimeout: game.resolutionTimeout, maxGovernorFee: game.maxGovernorFeePercentage,
+            payoutSchedule: game.payoutSchedule, governor: game.governor, governors: game.governors,
+            governorThreshold: game.governors.length > 0 ? game.governorThreshold : 0, minPlayers: Math.min(game.minPlayers, players.length),
+            concedeRefundBps: game.concedeRefundBps, teamCount: game.teamCount, maxTeamSize: game.maxTeamSize,
+            team: game.teamCount > 0 ? game.playerTeams[seat] : 0,
+            gameType: game.gameType, metadataURI: game.metadataURI, metadata: game.metadata, minGovernorBond: game.minGovernorBond,
+        });
+    }
+
+    /** Starts a series from a game whose lobby has locked. The first player to win `winsNeeded` games takes it (3 of 5 → 3). */
+    createSeries(gameId, winsNeeded)       { return this._tx(() => this._series().createSeries(gameId, winsNeeded)); }
+    /** Links a game created elsewhere to a series once its previous game finished. `rematch` opens and links in one go. */
+    addSeriesGame(seriesId, gameId)        { return this._tx(() => this._series().addGame(seriesId, gameId)); }
+
+    /**
+     * Series record: `{ governor, token, stakeAmount, winsNeeded, players, gameIds, wins, winner }`.
+     * `wins[i]` (Number) belongs to `players[i]`; `winner` is ZeroAddress while the series is undecided.
+     */
+    async getSeries(seriesId) {
+        const raw = await this._series().getSeries(seriesId);
+        return {
+            governor: raw.governor, token: raw.token, stakeAmount: raw.stakeAmount, winsNeeded: Number(raw.winsNeeded),
+            players: Array.from(raw.players), gameIds: Array.from(raw.gameIds), wins: Array.from(raw.wins, Number), winner: raw.winner,
+        };
+    }
+    /** Id of the series `gameId` belongs to, or null. */
+    async getSeriesForGame(gameId) {
+        try { return await this._series().seriesOf(gameId); }
+        catch (e) { if (e.code === 'CALL_EXCEPTION') return null; throw e; }
+    }
+
+    // ── Rock-paper-scissors (RockPaperScissorsGovernor at `rpsAddress`) ──
+    // Games are created on the escrow with `governor: rpsAddress` and `maxPlayers: 2`.
+    /**
+     * Commits `move` ('rock' | 'paper' | 'scissors') for this wallet. Returns `{ move, salt }` — keep both until
+     * `revealMove`, which needs them; losing the salt means losing the game at the reveal deadline.
+     */
+    async commitMove(gameId, move) {
+        const value = RPS_MOVES.indexOf(move);
+        if (value < 1) throw new Error(`Unknown move: ${move}`);
+        const salt = ethers.hexlify(ethers.randomBytes(32));
+        const hash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+            ["uint256", "address", "uint8", "bytes32"], [gameId, this.wallet.address, value, salt],
+        ));
+        await this._tx(() => this._rps().commit(gameId, hash));
+        return { move, salt };
+    }
+    revealMove(gameId, move, salt)         { return this._tx(() => this._rps().reveal(gameId, RPS_MOVES.indexOf(move), salt)); }
+    /** Both players conceded: cancels the game, crediting each the rest of their stake. Callable by anyone. */
+    cancelConcededRound(gameId)            { return this._tx(() => this._rps().cancelConceded(gameId)); }
+
+    /**
+     * Round state: `{ players, committed, moves, commitDeadline, revealDeadline }`. `committed[i]` and `moves[i]`
+     * ('' until revealed) belong to `players[i]`; deadlines are unix seconds, 0 until they apply.
+     */
+    async getRound(gameId) {
+        const raw = await this._rps().getRound(gameId);
+        return {
+            players: Array.from(raw.players), committed: Array.from(raw.commits, c => c !== ethers.ZeroHash),
+            moves: Array.from(raw.moves, m => RPS_MOVES[Number(m)]),
+            commitDeadline: Number(raw.commitDeadline), revealDeadline: Number(raw.revealDeadline),
+        };
+    }
+
+    // ── Governor bonds (GovernorBonds at `bondsAddress`) ──
+    /** Adds `amount` wei to this wallet's governor bond. */
+    postBond(amount)                       { return this._tx(() => this._bonds().postBond({ value: amount })); }
+    /** Starts unbonding `amount`; it stays slashable until `withdrawBond` after the challenge window. */
+    requestBondWithdrawal(amount)          { return this._tx(() => this._bonds().requestWithdrawal(amount)); }
+    withdrawBond()                         { return this._tx(() => this._bonds().withdrawBond()); }
+    /** Players: flags a resolution as unfair, within the challenge window after `game.resolvedAt`. Needs an appointed arbiter. */
+    disputeResolution(gameId)              { return this._tx(() => this._bonds().dispute(gameId)); }
+    /** Arbiter: slashes the game governor's bond, crediting `amounts[i]` wei to `players[i]`. */
+    slashBond(gameId, players, amounts, reason) { return this._tx(() => this._bonds().slash(gameId, players, amounts, reason)); }
+    /** Arbiter: rules a disputed resolution fair. */
+    dismissDispute(gameId)                 { return this._tx(() => this._bonds().dismiss(gameId)); }
+    /** Escrow owner: appoints the arbiter. */
+    setArbiter(arbiter)                    { return this._tx(() => this._bonds().setArbiter(arbiter)); }
+    /** Withdraws compensation credited from slashed bonds. */
+    claimCompensation()                    { return this._tx(() => this._bonds().claim(ethers.ZeroAddress)); }
+
+    /**
+     * Bond of `governor`: `{ amount, pendingWithdrawal, withdrawableAt, openDisputes, slashedTotal }`.
+     * Amounts are BigInt wei and include the pending withdrawal, which is still slashable; `withdrawableAt` is unix seconds.
+     */
+    async getBond(governor = this.wallet.address) {
+        const raw = await this._bonds().getBond(governor);
+        return {
+            amount: raw.amount, pendingWithdrawal: raw.pendingWithdrawal, withdrawableAt: Number(raw.withdrawableAt),
+            openDisputes: Number(raw.openDisputes), slashedTotal: raw.slashedTotal,
+        };
+    }
+    /** Slash history of `governor`, oldest first: `[{ gameId, amount, timestamp, reason }]`. */
+    async getSlashes(governor = this.wallet.address) {
+        const raw = await this._bonds().getSlashes(governor);
+        return Array.from(raw, s => ({ gameId: s.gameId, amount: s.amount, timestamp: Number(s.timestamp), reason: s.reason }));
+    }
+    /** Dispute state of a game: `{ disputedBy, ruled }`; `disputedBy` is ZeroAddress when nobody disputed it. */
+    async getDispute(gameId) {
+        const [disputedBy, ruled] = await Promise.all([this._bonds().disputedBy(gameId), this._bonds().ruled(gameId)]);
+        return { disputedBy, ruled };
+    }
+    getCompensation(account = this.wallet.address) { return this._bonds().claimable(account, ethers.ZeroAddress); }
+
+    // ── Jackpot (Jackpot at `jackpotAddress`) ──
+    /** Buys `count` entries in the open round at `entryPrice` each, approving the jackpot token first if needed. */
+    async buyEntries(count) {
+        const jackpot = this._jackpot();
+        const [token, entryPrice] = await Promise.all([jackpot.token(), jackpot.entryPrice()]);
+        const cost = BigInt(count) * entryPrice;
+        if (token === ethers.ZeroAddress) return this._tx(() => jackpot.buyEntries(count, { value: cost }));
+        await this._approve(token, cost, jackpot.target);
+        return this._tx(() => jackpot.buyEntries(count));
+    }
+    /** Closes the current round once its `endTime` passed and opens the next. Buying entries does this too. */
+    closeJackpotRound()                    { return this._tx(() => this._jackpot().closeRound()); }
+    /**
+     * Draws a closed round once its `drawBlock` is mined, crediting the winner. If the draw block is more than 256
+     * blocks old the round is refunded instead — check `getJackpotRound(roundId).drawn` afterwards.
+     */
+    drawJackpot(roundId)                   { return this._tx(() => this._jackpot().draw(roundId)); }
+    /** Refunded rounds only: credits `player` the full price of their entries (see `claimJackpot`). Callable by anyone. */
+    collectJackpotRefund(roundId, player = this.wallet.address) { return this._tx(() => this._jackpot().collectRefund(roundId, player)); }
+    async claimJackpot()                   { const token = await this._jackpot().token(); return this._tx(() => this._jackpot().claim(token)); }
+
+    /** Jackpot settings and the open round: `{ token, entryPrice, roundDuration, roundId, round }`. */
+    async getJackpot() {
+        const jackpot = this._jackpot();
+        const [token, entryPrice, roundDuration, roundId] = await Promise.all([
+            jackpot.token(), jackpot.entryPrice(), jackpot.roundDuration(), jackpot.currentRound(),
+        ]);
+        return { token, entryPrice, roundDuration: Number(roundDuration), roundId, round: await this.getJackpotRound(roundId) };
+    }
+    async getJackpotRound(roundId) { return normalizeJackpotRound(await this._jackpot().getRound(roundId)); }
+
+    /** Round history, newest first (the open round included): `[{ id, ...round }]`. */
+    async getJackpotRounds({ offset = 0n, limit = 20n } = {}) {
+        const [ids, rounds] = await this._jackpot().getRounds(offset, limit);
+        return Array.from(ids, (id, i) => ({ id, ...normalizeJackpotRound(rounds[i]) }));
+    }
+    /** Rounds `player` entered, newest first: `{ ids, total }`. */
+    async getJackpotRoundsByPlayer(player = this.wallet.address, { offset = 0n, limit = 20n } = {}) {
+        const [ids, total] = await this._jackpot().getRoundsByPlayer(player, offset, limit);
+        return { ids: Array.from(ids), total };
+    }
+    /** Entries `player` holds in a round (BigInt); their chance is this over `round.entries`. */
+    getJackpotEntries(roundId, player = this.wallet.address) { return this._jackpot().entriesOf(roundId, player); }
+    async getJackpotClaimable(account = this.wallet.address) {
+        const jackpot = this._jackpot();
+        return jackpot.claimable(account, await jackpot.token());
+    }
+
+    // ── Merkle whitelists ──
+    /** Root to pass as `whitelistRoot` to `createGame`. Share the address list with invitees so they can build proofs. */
+    static merkleRoot(addresses) {
+        const layers = merkleLayers(addresses);
+        return layers[layers.length - 1][0];
+    }
+
+    /** Proof that `account` is in `addresses`, for `joinGame(..., { proof })`. Throws if it isn't. */
+    static merkleProof(addresses, account) {
+        const layers = merkleLayers(addresses);
+        let index = layers[0].indexOf(merkleLeaf(account));
+        if (index === -1) throw new Error("Account not in whitelist");
+        const proof = [];
+        for (const layer of layers.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < layer.length) proof.push(layer[sibling]);
+            index >>= 1;
+        }
+        return proof;
+    }
 }
 
 class Governor {
     /**
      * @param {EscrowClient} escrow
      * @param {Object}       opts
-     * @param {number}       [opts.fee=0]                  Governor fee percentage (Number, 0–100)
-     * @param {(gameId: bigint, game: Object, resolve: (losers: string[]) => Promise<void>) => Promise<void>} [opts.gameLoop]
+     * @param {number}       [opts.fee=0]                  Governor fee percentage (Number, 0–100), clamped to each game's `maxGovernorFeePercentage`
+     * @param {string[]}     [opts.gameTypes]              Only handle games of these types (e.g. ["coinflip"]); events, lobbies and
+     *        loops of other games are ignored. Omit to handle every game
+     * @param {(gameId: bigint, game: Object, resolve: (losers: string[]) => Promise<void>, resolveRanked: (ranking: string[]) => Promise<void>, cancel: () => Promise<void>, resolveTeams: (losingTeams: number[]) => Promise<void>) => Promise<void>} [opts.gameLoop]
+     *        Ranked games (non-empty `game.payoutSchedule`) must settle with `resolveRanked`, 1st place first.
+     *        Team games (`game.teamCount > 0`) can settle with `resolveTeams`.
+     *        Call `cancel` to refund everyone when the game cannot be played
+     * @param {boolean|((gameId: bigint, game: Object) => boolean|Promise<boolean>)} [opts.startWhenReady=false]
+     *        Start lobbies as soon as they reach `minPlayers` (or when this callback returns true), and close
+     *        this governor's lobbies once their join deadline passes
+     * @param {boolean|((gameId: bigint, game: Object, error: Error) => boolean|Promise<boolean>)} [opts.cancelOnError=false]
+     *        Cancel and refund the game when `gameLoop` throws (or when this callback returns true)
+     * @param {(signed: Object) => void|Promise<void>} [opts.relayResolution]
+     *        Gasless mode: `resolve` signs an EIP-712 resolution and hands it to this callback (e.g. POST to a relayer) instead of sending a tx.
+     *        The escrow only accepts signed loser lists, so `resolveRanked` and `resolveTeams` still send their own tx
+     * @param {(gameId: bigint, game: Object, args: Object) => boolean|Promise<boolean>} [opts.verifyStart]
+     *        Council games: return true to second another governor's start vote
+     * @param {(gameId: bigint, game: Object, args: Object) => boolean|Promise<boolean>} [opts.verifyResolution]
+     *        Council games: return true to cast the same vote as another governor's proposal
+     *        (`args.players` = losers, or the ranking when `args.ranked`)
+     * @param {(gameId: bigint, game: Object, args: Object) => boolean|Promise<boolean>} [opts.verifyCancel]
+     *        Council games: return true to second another governor's cancel vote
      * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onGameCreated]
      * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onPlayerJoined]
      * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onPlayerForfeited]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onPlayerConceded]
+     *        A player gave up mid-game (`args.player`, `args.refund`); they are already in `game.losers`
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onLobbyReady]
+     *        A join brought the lobby to `minPlayers` (`args.activePlayers`)
      * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onGameStarted]
      * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onGameResolved]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onGameExpired]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onStartVoted]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onResolutionVoted]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onGameCancelled]
+     * @param {(gameId: bigint, game: Object, args: Object) => void|Promise<void>} [opts.onCancelVoted]
      */
-    constructor(escrow, { fee = 0, gameLoop, onGameCreated, onPlayerJoined, onPlayerForfeited, onGameStarted, onGameResolved } = {}) {
+    constructor(escrow, {
+        fee = 0, gameTypes, gameLoop, startWhenReady = false, cancelOnError = false, relayResolution, verifyStart, verifyResolution, verifyCancel,
+        onGameCreated, onPlayerJoined, onPlayerForfeited, onPlayerConceded, onLobbyReady, onGameStarted, onGameResolved, onGameExpired, onStartVoted, onResolutionVoted,
+        onGameCancelled, onCancelVoted,
+    } = {}) {
         this.escrow = escrow;
         this.fee = fee;
+        this.gameTypes = gameTypes?.map(t => decodeGameType(encodeGameType(t)));
         this.gameLoop = gameLoop;
-        this.handlers = { GameCreated: onGameCreated, PlayerJoined: onPlayerJoined, PlayerForfeited: onPlayerForfeited, GameStarted: onGameStarted, GameResolved: onGameResolved };
+        this.startWhenReady = startWhenReady;
+        this.cancelOnError = cancelOnError;
+        this.relayResolution = relayResolution;
+        this.verifyStart = verifyStart;
+        this.verifyResolution = verifyResolution;
+        this.verifyCancel = verifyCancel;
+        this.handlers = {
+            GameCreated: onGameCreated, PlayerJoined: onPlayerJoined, PlayerForfeited: onPlayerForfeited, PlayerConceded: onPlayerConceded,
+            LobbyReady: onLobbyReady, GameStarted: onGameStarted,
+            GameResolved: onGameResolved, GameExpired: onGameExpired, StartVoted: onStartVoted, ResolutionVoted: onResolutionVoted,
+            GameCancelled: onGameCancelled, CancelVoted: onCancelVoted,
+        };
         this.running = new Set();
         this.lastBlock = null;
     }
 
     startGame(gameId)                    { return this.escrow.startGame(gameId); }
-    resolveGame(gameId, losers)          { return this.escrow.resolveGame(gameId, losers, this.fee); }
+    async resolveGame(gameId, losers) {
+        const { fee, losers: remaining } = await this._resolution(gameId, losers);
+        if (this.relayResolution) return this.relayResolution(await this.escrow.signResolution(gameId, remaining, fee));
+        return this.escrow.resolveGame(gameId, remaining, fee);
+    }
+    async signResolution(gameId, losers, opts) {
+        const { fee, losers: remaining } = await this._resolution(gameId, losers);
+        return this.escrow.signResolution(gameId, remaining, fee, opts);
+    }
+    async resolveRanked(gameId, ranking) {
+        const { maxGovernorFeePercentage } = await this.escrow.getGame(gameId);
+        return this.escrow.resolveRanked(gameId, ranking, Math.min(this.fee, maxGovernorFeePercentage));
+    }
+    async resolveTeams(gameId, losingTeams) {
+        const { maxGovernorFeePercentage } = await this.escrow.getGame(gameId);
+        return this.escrow.resolveTeams(gameId, losingTeams, Math.min(this.fee, maxGovernorFeePercentage));
+    }
+    /** Resolves several games in one transaction, e.g. at the end of a round. `results` is `[{ gameId, losers }]`. */
+    async resolveMany(results) {
+        const resolutions = await Promise.all(results.map(async ({ gameId, losers }) => ({ gameId, ...await this._resolution(gameId, losers) })));
+        return this.escrow.resolveMany(resolutions);
+    }
+    cancelGame(gameId)                   { return this.escrow.cancelGame(gameId); }
     getMyGames(opts)                     { return this.escrow.getGames({ governor: this.escrow.wallet.address, ...opts }); }
 
+    _isMe(address) { return address.toLowerCase() === this.escrow.wallet.address.toLowerCase(); }
+    _governs(game) { return this._isMe(game.governor) || game.governors.some(g => this._isMe(g)); }
+    _handlesType(game) { return !this.gameTypes || this.gameTypes.includes(game.gameType); }
+    // Fee and loser list as the escrow takes them for `gameId`
+    async _resolution(gameId, losers) {
+        const { maxGovernorFeePercentage, governors, losers: conceded } = await this.escrow.getGame(gameId);
+        // Players who conceded are already losers and must not be listed again
+        losers = losers.filter(l => !conceded.some(c => c.toLowerCase() === l.toLowerCase()));
+        // Council votes must match exactly, so use a canonical loser order
+        if (governors.length > 0) losers = [...losers].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+        return { fee: Math.min(this.fee, maxGovernorFeePercentage), losers };
+    }
+
+    // Council games: second other governors' votes when the verify hooks approve
+    async _coordinate(name, gameId, game, args) {
+        if (!this._governs(game) || this._isMe(args.governor)) return;
+
+        if (name === 'StartVoted' && this.verifyStart && game.state === 0) {
+            const { votedStart } = await this.escrow.getVote(gameId);
+            if (!votedStart && await this.verifyStart(gameId, game, args)) await this.escrow.startGame(gameId);
+        }
+        if (name === 'ResolutionVoted' && this.verifyResolution && game.state === 1) {
+            const { outcome } = await this.escrow.getVote(gameId);
+            if (outcome === args.outcome || !await this.verifyResolution(gameId, game, args)) return;
+            const players = Array.from(args.players);
+            await (args.ranked
+                ? this.escrow.resolveRanked(gameId, players, args.governorFeePercentage)
+                : this.escrow.resolveGame(gameId, players, args.governorFeePercentage));
+        }
+        if (name === 'CancelVoted' && this.verifyCancel && game.state <= 1) {
+            const { outcome } = await this.escrow.getVote(gameId);
+            if (outcome !== CANCEL_OUTCOME && await this.verifyCancel(gameId, game, args)) await this.escrow.cancelGame(gameId);
+        }
+    }
+
     async _processEvents(logs) {
         for (const log of logs) {
             try {
@@ -117,31 +986,66 @@ class Governor {
                 const { name, args } = parsed;
                 const gameId = args.gameId;
                 const game = gameId !== undefined ? await this.escrow.getGame(gameId) : undefined;
+                if (game && !this._handlesType(game)) continue;
 
                 await this.handlers[name]?.(gameId, game, args);
 
-                if (name === 'GameStarted' && this.gameLoop && game.governor.toLowerCase() === this.escrow.wallet.address.toLowerCase()) {
-                    if (game.state !== 2 && !this.running.has(`${gameId}`)) this._runLoop(gameId, game);
+                if (name === 'StartVoted' || name === 'ResolutionVoted' || name === 'CancelVoted') await this._coordinate(name, gameId, game, args);
+
+                if (name === 'LobbyReady' && this.startWhenReady && this._governs(game) && game.state === 0) {
+                    if (await this._wantsStart(gameId, game)) await this.escrow.startGame(gameId);
+                }
+
+                if (name === 'GameStarted' && this.gameLoop && this._governs(game)) {
+                    if (game.state === 1 && !this.running.has(`${gameId}`)) this._runLoop(gameId, game);
                 }
             } catch (e) { console.error('[Governor] event error:', e.stack || e); }
         }
     }
 
+    _wantsStart(gameId, game) {
+        return typeof this.startWhenReady === 'function' ? this.startWhenReady(gameId, game) : this.startWhenReady;
+    }
+
+    // Lobbies past their join deadline: start them (or refund when short of players)
+    async _closeLobbies() {
+        const [games, { timestamp }] = await Promise.all([this.getMyGames({ state: 'open' }), this.escrow.provider.getBlock('latest')]);
+        for (const game of games.filter(g => this._handlesType(g))) {
+            if (!await this.escrow.isLobbyClosable(game, timestamp)) continue;
+            if (game.activePlayers >= game.minPlayers && !await this._wantsStart(game.id, game)) continue;
+            await this.escrow.closeLobby(game.id);
+        }
+    }
+
     _runLoop(gameId, game) {
         this.running.add(`${gameId}`);
-        this.gameLoop(gameId, game, losers => this.resolveGame(gameId, losers))
-            .catch(e => console.error(`[Governor] game ${gameId} error:`, e.stack || e))
+        this.gameLoop(gameId, game, losers => this.resolveGame(gameId, losers), ranking => this.resolveRanked(gameId, ranking), () => this.cancelGame(gameId),
+            teams => this.resolveTeams(gameId, teams))
+            .catch(e => this._onLoopError(gameId, game, e))
             .finally(() => this.running.delete(`${gameId}`));
     }
 
+    async _onLoopError(gameId, game, error) {
+        console.error(`[Governor] game ${gameId} error:`, error.stack || error);
+        try {
+            const cancel = typeof this.cancelOnError === 'function' ? await this.cancelOnError(gameId, game, error) : this.cancelOnError;
+            if (!cancel || (await this.escrow.getGame(gameId)).state !== 1) return;
+            await this.cancelGame(gameId);
+            console.log(`[Governor] game ${gameId} cancelled, stakes refunded`);
+        } catch (e) { console.error(`[Governor] game ${gameId} cancel failed:`, e.stack || e); }
+    }
+
     async start(interval = 10000) {
         console.log(`[Governor] ${this.escrow.wallet.address}`);
         this.lastBlock = await this.escrow.provider.getBlockNumber();
 
-        // Recover any started-but-unresolved games
+        // Recover any started-but-unresolved games. Pages are filtered by state after fetching, so walk the whole index
         if (this.gameLoop) {
-            const games = await this.getMyGames({ state: 'started' });
-            games.filter(g => !this.running.has(`${g.id}`)).forEach(g => this._runLoop(g.id, g));
+            const [, total] = await this.escrow.contract.getGamesByGovernor(this.escrow.wallet.address, 0n, 0n);
+            for (let offset = 0n; offset < total; offset += RECOVERY_PAGE) {
+                const games = await this.getMyGames({ state: 'started', offset, limit: RECOVERY_PAGE });
+                games.filter(g => this._handlesType(g) && !this.running.has(`${g.id}`)).forEach(g => this._runLoop(g.id, g));
+            }
         }
 
         while (true) {
@@ -152,6 +1056,7 @@ class Governor {
                     if (logs.length) await this._processEvents(logs);
                     this.lastBlock = block;
                 }
+                if (this.startWhenReady) await this._closeLobbies();
                 console.log(`[Governor] block ${block}, balance ${ethers.formatEther(await this.escrow.getBalance())}`);
             } catch (e) { console.error('[Governor] loop error:', e.stack || e); }
             await new Promise(r => setTimeout(r, interval));
@@ -159,5 +1064,118 @@ class Governor {
     }
 }
 
-export { EscrowClient, Governor };
+class TournamentGovernor {
+    /**
+     * Drives this wallet's tournaments: every time a round starts it plays each unreported match and reports the winner.
+     * @param {EscrowClient} escrow  Client created with a `tournamentAddress`
+     * @param {Object}       opts
+     * @param {(tournamentId: bigint, round: number, matchIndex: number, players: [string, string], tournament: Object) => Promise<string>} opts.playMatch
+     *        Plays one match and returns the winner's address
+     * @param {boolean|((tournamentId: bigint, tournament: Object, error: Error) => boolean|Promise<boolean>)} [opts.cancelOnError=false]
+     *        Cancel and refund the tournament when `playMatch` throws (or when this callback returns true)
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onTournamentCreated]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onPlayerEntered]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onPlayerWithdrew]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onRoundStarted]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onMatchReported]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onTournamentResolved]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onTournamentExpired]
+     * @param {(tournamentId: bigint, tournament: Object, args: Object) => void|Promise<void>} [opts.onTournamentCancelled]
+     */
+    constructor(escrow, {
+        playMatch, cancelOnError = false,
+        onTournamentCreated, onPlayerEntered, onPlayerWithdrew, onRoundStarted, onMatchReported, onTournamentResolved,
+        onTournamentExpired, onTournamentCancelled,
+    } = {}) {
+        if (!escrow.tournaments) throw new Error("TournamentGovernor needs an EscrowClient with a tournamentAddress");
+        this.escrow = escrow;
+        this.playMatch = playMatch;
+        this.cancelOnError = cancelOnError;
+        this.handlers = {
+            TournamentCreated: onTournamentCreated, PlayerEntered: onPlayerEntered, PlayerWithdrew: onPlayerWithdrew,
+            RoundStarted: onRoundStarted, MatchReported: onMatchReported, TournamentResolved: onTournamentResolved,
+            TournamentExpired: onTournamentExpired, TournamentCancelled: onTournamentCancelled,
+        };
+        this.running = new Set();
+        this.lastBlock = null;
+    }
+
+    reportMatch(tournamentId, matchIndex, winner) { return this.escrow.reportMatch(tournamentId, matchIndex, winner); }
+    cancelTournament(tournamentId)       { return this.escrow.cancelTournament(tournamentId); }
+    getMyTournaments(opts)               { return this.escrow.getTournaments({ governor: this.escrow.wallet.address, ...opts }); }
+
+    _governs(tournament) { return tournament.governor.toLowerCase() === this.escrow.wallet.address.toLowerCase(); }
+
+    async _processEvents(logs) {
+        for (const log of logs) {
+            try {
+                const parsed = this.escrow.tournaments.interface.parseLog(log);
+                if (!parsed) continue;
+                const { name, args } = parsed;
+                const tournamentId = args.tournamentId;
+                if (tournamentId === undefined) continue; // BalanceCredited/BalanceClaimed from the shared payouts base
+                const tournament = await this.escrow.getTournament(tournamentId);
+
+                await this.handlers[name]?.(tournamentId, tournament, args);
+
+                if (name === 'RoundStarted' && this.playMatch && this._governs(tournament)) this._runRound(tournamentId, tournament);
+            } catch (e) { console.error('[TournamentGovernor] event error:', e.stack || e); }
+        }
+    }
+
+    // Plays the current round's unreported matches one at a time; the last report starts the next round
+    _runRound(tournamentId, tournament) {
+        const key = `${tournamentId}:${tournament.round}`;
+        if (tournament.state !== 1 || this.running.has(key)) return;
+        this.running.add(key);
+        (async () => {
+            for (let i = 0; i < tournament.winners.length; i++) {
+                if (tournament.winners[i] !== ethers.ZeroAddress) continue;
+                const players = [tournament.bracket[2 * i], tournament.bracket[2 * i + 1]];
+                const winner = await this.playMatch(tournamentId, tournament.round, i, players, tournament);
+                await this.reportMatch(tournamentId, i, winner);
+            }
+        })()
+            .catch(e => this._onRoundError(tournamentId, tournament, e))
+            .finally(() => this.running.delete(key));
+    }
+
+    async _onRoundError(tournamentId, tournament, error) {
+        console.error(`[TournamentGovernor] tournament ${tournamentId} error:`, error.stack || error);
+        try {
+            const cancel = typeof this.cancelOnError === 'function' ? await this.cancelOnError(tournamentId, tournament, error) : this.cancelOnError;
+            if (!cancel || (await this.escrow.getTournament(tournamentId)).state !== 1) return;
+            await this.cancelTournament(tournamentId);
+            console.log(`[TournamentGovernor] tournament ${tournamentId} cancelled, entries refunded`);
+        } catch (e) { console.error(`[TournamentGovernor] tournament ${tournamentId} cancel failed:`, e.stack || e); }
+    }
+
+    async start(interval = 10000) {
+        console.log(`[TournamentGovernor] ${this.escrow.wallet.address}`);
+        this.lastBlock = await this.escrow.provider.getBlockNumber();
+
+        // Pick up brackets that are mid-round
+        if (this.playMatch) {
+            const [, total] = await this.escrow._tournaments().getTournamentsByGovernor(this.escrow.wallet.address, 0n, 0n);
+            for (let offset = 0n; offset < total; offset += RECOVERY_PAGE) {
+                const tournaments = await this.getMyTournaments({ state: 'started', offset, limit: RECOVERY_PAGE });
+                tournaments.forEach(t => this._runRound(t.id, t));
+            }
+        }
+
+        while (true) {
+            try {
+                const block = await this.escrow.provider.getBlockNumber();
+                if (block > this.lastBlock) {
+                    const logs = await this.escrow.provider.getLogs({ address: this.escrow.tournaments.target, fromBlock: this.lastBlock + 1, toBlock: block });
+                    if (logs.length) await this._processEvents(logs);
+                    this.lastBlock = block;
+                }
+            } catch (e) { console.error('[TournamentGovernor] loop error:', e.stack || e); }
+            await new Promise(r => setTimeout(r, interval));
+        }
+    }
+}
+
+export { EscrowClient, Governor, TournamentGovernor, GameState };
 export default EscrowClient;
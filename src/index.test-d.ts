@@ -0,0 +1,43 @@
+// src/index.test-d.ts
+// Type-level tests for the SDK declarations. Nothing here runs: `npm run typecheck` compiles it, so a change to the
+// ABI or to index.d.ts that alters what callers see fails the check.
+import type { ContractTransactionReceipt } from "ethers";
+import type { CreateGameOptions, EscrowClient, GameInfo, GameState, RawGameInfo } from "./index.js";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+declare function expectType<T extends true>(): void;
+
+declare const client: EscrowClient;
+
+// ── createGame ──
+type CreateGame = EscrowClient["createGame"];
+expectType<Equal<Parameters<CreateGame>, [stakeAmount: bigint, maxPlayers?: number, whitelist?: string[], options?: CreateGameOptions]>>();
+expectType<Equal<ReturnType<CreateGame>, Promise<bigint>>>();
+expectType<Equal<CreateGameOptions["minGovernorBond"], bigint | undefined>>();
+// @ts-expect-error stakes are wei as bigint
+client.createGame(1, 2);
+// @ts-expect-error so are bond requirements
+client.createGame(1n, 2, [], { minGovernorBond: 1 });
+
+// ── getGame ──
+type Game = Awaited<ReturnType<EscrowClient["getGame"]>>;
+expectType<Equal<Parameters<EscrowClient["getGame"]>, [gameId: bigint]>>();
+expectType<Equal<Game, GameInfo>>();
+// amounts stay bigint, counters become Numbers
+expectType<Equal<Game["stakeAmount"], bigint>>();
+expectType<Equal<Game["minGovernorBond"], bigint>>();
+expectType<Equal<Game["maxPlayers"], number>>();
+expectType<Equal<Game["resolutionTimeout"], number>>();
+expectType<Equal<Game["payoutSchedule"], number[]>>();
+expectType<Equal<Game["players"], `0x${string}`[]>>();
+expectType<Equal<Game["state"], GameState>>();
+expectType<Equal<Game["gameType"], string>>();
+expectType<Equal<RawGameInfo["stakeAmount"], bigint>>();
+expectType<Equal<RawGameInfo["gameType"], `0x${string}`>>();
+
+// ── resolveRanked ──
+type ResolveRanked = EscrowClient["resolveRanked"];
+expectType<Equal<Parameters<ResolveRanked>, [gameId: bigint, ranking: string[], fee?: number]>>();
+expectType<Equal<ReturnType<ResolveRanked>, Promise<ContractTransactionReceipt | null>>>();
+// @ts-expect-error the ranking is a list of addresses, winner first
+client.resolveRanked(1n, "0x0000000000000000000000000000000000000001");
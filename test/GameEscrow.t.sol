@@ -0,0 +1,653 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+
+/// @dev Player contract without a receive function, so ETH sent to it reverts.
+contract EthRejecter {
+    function create(GameEscrow escrow, GameEscrow.GameConfig calldata config) external payable returns (uint256) {
+        return escrow.createGame{value: msg.value}(config);
+    }
+}
+
+contract GameEscrowTest is EscrowTest {
+    // --------------------------------------------------
+    // ERC-20 stakes
+    // --------------------------------------------------
+
+    function test_TokenGameCollectsAndPaysOutInToken() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.token = address(token);
+        uint256 gameId = _startedGame(config);
+        assertEq(token.balanceOf(address(escrow)), 2 * STAKE);
+
+        _resolve(gameId, bob, 10);
+
+        // 2 ETH-equivalent pot: 5% house, 10% governor, the rest to alice
+        assertEq(escrow.claimable(alice, address(token)), 1.7 ether);
+        assertEq(escrow.claimable(governor, address(token)), 0.2 ether);
+        assertEq(escrow.accumulatedHouseFees(address(token)), 0.1 ether);
+
+        vm.prank(alice);
+        escrow.claim(address(token));
+        assertEq(token.balanceOf(alice), 100 ether - STAKE + 1.7 ether);
+    }
+
+    function test_TokenGameRejectsEth() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.token = address(token);
+        uint256 gameId = _create(alice, config);
+
+        vm.prank(bob);
+        vm.expectRevert("ETH sent to token game");
+        escrow.joinGame{value: STAKE}(gameId);
+    }
+
+    // --------------------------------------------------
+    // Resolution timeouts
+    // --------------------------------------------------
+
+    function test_ExpiredGameRefundsEveryStake() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.resolutionTimeout = 1 hours;
+        uint256 gameId = _startedGame(config);
+
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.NotExpired.selector);
+        ext.refundExpiredGame(gameId);
+
+        vm.warp(block.timestamp + 1 hours + 1);
+        vm.prank(bob);
+        ext.refundExpiredGame(gameId);
+
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Expired));
+        assertEq(escrow.claimable(alice, address(0)), STAKE);
+        assertEq(escrow.claimable(bob, address(0)), STAKE);
+    }
+
+    // --------------------------------------------------
+    // Pull payouts
+    // --------------------------------------------------
+
+    function test_RejectingWinnerOnlyBlocksItsOwnClaim() public {
+        EthRejecter rejecter = new EthRejecter();
+        uint256 gameId = rejecter.create{value: STAKE}(escrow, _config());
+        _join(gameId, bob);
+        vm.prank(governor);
+        escrow.startGame(gameId);
+
+        _resolve(gameId, bob, 10);
+        assertEq(escrow.claimable(address(rejecter), address(0)), 1.7 ether);
+
+        vm.expectRevert("Transfer failed");
+        escrow.claimFor(address(rejecter), address(0));
+
+        uint256 before = governor.balance;
+        vm.prank(governor);
+        escrow.claim(address(0));
+        assertEq(governor.balance - before, 0.2 ether);
+    }
+
+    // --------------------------------------------------
+    // Governor fee cap and house fee snapshot
+    // --------------------------------------------------
+
+    function test_GovernorFeeAboveCapReverts() public {
+        uint256 gameId = _startedGame(_config());
+
+        vm.prank(governor);
+        vm.expectRevert(GameEscrowStorage.FeeAboveCap.selector);
+        escrow.resolveGame(gameId, _list(bob), 11);
+    }
+
+    function test_HouseFeeIsSnapshotAtCreation() public {
+        uint256 gameId = _create(alice, _config());
+        ext.setHouseFee(20);
+
+        assertEq(ext.getGame(gameId).houseFeePercentage, 5);
+
+        GameEscrow.GameConfig memory config = _config();
+        config.maxGovernorFeePercentage = 81;
+        vm.prank(alice);
+        vm.expectRevert(GameEscrowStorage.FeeOverflow.selector);
+        escrow.createGame{value: STAKE}(config);
+    }
+
+    // --------------------------------------------------
+    // Ranked payouts
+    // --------------------------------------------------
+
+    function test_RankedGamePaysBySchedule() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.payoutSchedule = new uint16[](2);
+        config.payoutSchedule[0] = 7000;
+        config.payoutSchedule[1] = 3000;
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+        _join(gameId, carol);
+        vm.startPrank(governor);
+        escrow.startGame(gameId);
+
+        vm.expectRevert(GameEscrowStorage.RankedGame.selector);
+        escrow.resolveGame(gameId, _list(bob), 0);
+
+        escrow.resolveRanked(gameId, _list(carol, alice), 0);
+        vm.stopPrank();
+
+        // 3 ETH pot less the 5% house fee
+        assertEq(escrow.claimable(carol, address(0)), 1.995 ether);
+        assertEq(escrow.claimable(alice, address(0)), 0.855 ether);
+        assertEq(escrow.claimable(bob, address(0)), 0);
+        assertEq(ext.getGame(gameId).losers[0], bob);
+    }
+
+    // --------------------------------------------------
+    // Signed resolutions
+    // --------------------------------------------------
+
+    function test_AnyoneSubmitsSignedResolution() public {
+        (address signer, uint256 key) = makeAddrAndKey("signer");
+        GameEscrow.GameConfig memory config = _config();
+        config.governor = signer;
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+        vm.prank(signer);
+        escrow.startGame(gameId);
+
+        address[] memory losers = _list(bob);
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes memory signature = _signResolution(key, gameId, losers, 10, 7, deadline);
+
+        vm.prank(carol);
+        escrow.resolveGameWithSig(gameId, losers, 10, 7, deadline, signature);
+        assertEq(escrow.claimable(alice, address(0)), 1.7 ether);
+        assertTrue(escrow.usedNonces(signer, 7));
+
+        vm.expectRevert(GameEscrowStorage.NonceAlreadyUsed.selector);
+        escrow.resolveGameWithSig(gameId, losers, 10, 7, deadline, signature);
+    }
+
+    function test_SignatureFromNonGovernorReverts() public {
+        uint256 gameId = _startedGame(_config());
+        (, uint256 key) = makeAddrAndKey("stranger");
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes memory signature = _signResolution(key, gameId, _list(bob), 0, 1, deadline);
+
+        vm.expectRevert(GameEscrowStorage.InvalidSignature.selector);
+        escrow.resolveGameWithSig(gameId, _list(bob), 0, 1, deadline, signature);
+    }
+
+    function _signResolution(
+        uint256 key,
+        uint256 gameId,
+        address[] memory losers,
+        uint256 governorFeePercentage,
+        uint256 nonce,
+        uint256 deadline
+    ) internal returns (bytes memory) {
+        bytes32 structHash = keccak256(abi.encode(
+            escrow.RESOLUTION_TYPEHASH(),
+            gameId,
+            keccak256(abi.encodePacked(losers)),
+            governorFeePercentage,
+            nonce,
+            deadline
+        ));
+        return _sign(key, keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash)));
+    }
+
+    // --------------------------------------------------
+    // Governor councils
+    // --------------------------------------------------
+
+    function test_CouncilStartsAndResolvesAtThreshold() public {
+        address g2 = makeAddr("g2");
+        address g3 = makeAddr("g3");
+        GameEscrow.GameConfig memory config = _config();
+        config.governors = new address[](3);
+        config.governors[0] = governor;
+        config.governors[1] = g2;
+        config.governors[2] = g3;
+        config.governorThreshold = 2;
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+
+        vm.prank(governor);
+        escrow.startGame(gameId);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Open));
+        vm.prank(g3);
+        escrow.startGame(gameId);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Started));
+
+        // Split votes don't resolve; the second matching vote does
+        vm.prank(governor);
+        escrow.resolveGame(gameId, _list(bob), 5);
+        vm.prank(g2);
+        escrow.resolveGame(gameId, _list(alice), 5);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Started));
+
+        vm.prank(g3);
+        escrow.resolveGame(gameId, _list(bob), 5);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Resolved));
+        assertEq(escrow.claimable(alice, address(0)), 1.8 ether);
+    }
+
+    function test_CouncilMustIncludeFeeGovernor() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.governors = _list(bob, carol);
+        config.governorThreshold = 1;
+
+        vm.prank(alice);
+        vm.expectRevert(GameEscrowStorage.GovernorNotInCouncil.selector);
+        escrow.createGame{value: STAKE}(config);
+    }
+
+    // --------------------------------------------------
+    // Cancellation
+    // --------------------------------------------------
+
+    function test_CancelRefundsFullStakesWithoutFees() public {
+        uint256 gameId = _startedGame(_config());
+
+        vm.prank(alice);
+        vm.expectRevert(GameEscrowStorage.NotGovernor.selector);
+        ext.cancelGame(gameId);
+
+        vm.prank(governor);
+        ext.cancelGame(gameId);
+
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Cancelled));
+        assertEq(escrow.claimable(alice, address(0)), STAKE);
+        assertEq(escrow.claimable(bob, address(0)), STAKE);
+        assertEq(escrow.accumulatedHouseFees(address(0)), 0);
+    }
+
+    // --------------------------------------------------
+    // Merkle whitelists
+    // --------------------------------------------------
+
+    function test_MerkleRootAdmitsOnlyInvitedPlayers() public {
+        bytes32 bobLeaf = _leaf(bob);
+        bytes32 carolLeaf = _leaf(carol);
+        GameEscrow.GameConfig memory config = _config();
+        config.whitelistRoot = bobLeaf < carolLeaf
+            ? keccak256(abi.encode(bobLeaf, carolLeaf))
+            : keccak256(abi.encode(carolLeaf, bobLeaf));
+        uint256 gameId = _create(alice, config);
+
+        bytes32[] memory proof = new bytes32[](1);
+        proof[0] = carolLeaf;
+        vm.prank(bob);
+        escrow.joinGameWithProof{value: STAKE}(gameId, proof);
+        assertEq(ext.getGame(gameId).activePlayers, 2);
+
+        address dave = makeAddr("dave");
+        vm.deal(dave, STAKE);
+        vm.prank(dave);
+        vm.expectRevert(GameEscrowStorage.NotWhitelisted.selector);
+        escrow.joinGameWithProof{value: STAKE}(gameId, proof);
+    }
+
+    function _leaf(address player) internal pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(player))));
+    }
+
+    // --------------------------------------------------
+    // Join deadlines, minimum players and lobby readiness
+    // --------------------------------------------------
+
+    function test_CloseLobbyRefundsWhenShortOfMinPlayers() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.minPlayers = 3;
+        config.joinDeadline = uint64(block.timestamp + 1 hours);
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+
+        vm.prank(governor);
+        vm.expectRevert(GameEscrowStorage.NotEnoughPlayers.selector);
+        escrow.startGame(gameId);
+        vm.expectRevert(GameEscrowStorage.LobbyStillOpen.selector);
+        ext.closeLobby(gameId);
+
+        vm.warp(config.joinDeadline + 1);
+        ext.closeLobby(gameId);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Expired));
+        assertEq(escrow.claimable(bob, address(0)), STAKE);
+    }
+
+    function test_CloseLobbyStartsWhenMinPlayersJoined() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.minPlayers = 2;
+        config.joinDeadline = uint64(block.timestamp + 1 hours);
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+
+        vm.warp(config.joinDeadline + 1);
+        vm.prank(carol);
+        vm.expectRevert(GameEscrowStorage.JoinDeadlinePassed.selector);
+        escrow.joinGame{value: STAKE}(gameId);
+
+        ext.closeLobby(gameId);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Started));
+    }
+
+    function test_LobbyReadyOnCreationWithoutMinimum() public {
+        vm.recordLogs();
+        uint256 gameId = _create(alice, _config());
+        _join(gameId, bob);
+        assertEq(_lobbyReadyCount(), 1);
+    }
+
+    function test_LobbyReadyOnceAcrossForfeitAndRejoin() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.minPlayers = 2;
+        uint256 gameId = _create(alice, config);
+
+        vm.recordLogs();
+        _join(gameId, bob);
+        vm.prank(bob);
+        ext.forfeitGame(gameId);
+        _join(gameId, carol);
+        assertEq(_lobbyReadyCount(), 1);
+    }
+
+    function test_ForfeitCreditsStake() public {
+        uint256 gameId = _create(alice, _config());
+        _join(gameId, bob);
+
+        uint256 before = bob.balance;
+        vm.prank(bob);
+        ext.forfeitGame(gameId);
+        assertEq(bob.balance, before);
+        assertEq(escrow.claimable(bob, address(0)), STAKE);
+    }
+
+    function test_ForfeitedSeatRefillsBeforeFullLobbyStarts() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.maxPlayers = 3;
+        config.minPlayers = 3;
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+        vm.prank(bob);
+        ext.forfeitGame(gameId);
+
+        // three joins, but only two active players: still open
+        _join(gameId, carol);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Open));
+
+        address dave = makeAddr("dave");
+        vm.deal(dave, STAKE);
+        _join(gameId, dave);
+        GameEscrowStorage.GameInfo memory game = ext.getGame(gameId);
+        assertEq(uint256(game.state), uint256(GameEscrowStorage.State.Started));
+        assertEq(game.activePlayers, 3);
+    }
+
+    function _lobbyReadyCount() internal returns (uint256 count) {
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        for (uint256 i; i < logs.length; i++) {
+            if (logs[i].topics[0] == keccak256("LobbyReady(uint256,uint256)")) count++;
+        }
+    }
+
+    // --------------------------------------------------
+    // Player and governor indexes
+    // --------------------------------------------------
+
+    function test_IndexesPageNewestFirst() public {
+        uint256 first = _create(alice, _config());
+        uint256 second = _create(bob, _config());
+        _join(first, bob);
+
+        (uint256[] memory ids, uint256 total) = ext.getGamesByPlayer(bob, 0, 10);
+        assertEq(total, 2);
+        assertEq(ids[0], first);
+        assertEq(ids[1], second);
+
+        (ids, total) = ext.getGamesByGovernor(governor, 1, 10);
+        assertEq(total, 2);
+        assertEq(ids.length, 1);
+        assertEq(ids[0], first);
+    }
+
+    // --------------------------------------------------
+    // Concessions
+    // --------------------------------------------------
+
+    function test_ConcedeRefundsShareAndLeavesRestInPot() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.concedeRefundBps = 5000;
+        uint256 gameId = _startedGame(config);
+
+        vm.prank(bob);
+        ext.concede(gameId);
+        assertEq(escrow.claimable(bob, address(0)), 0.5 ether);
+
+        vm.prank(governor);
+        vm.expectRevert(GameEscrowStorage.DuplicateLoser.selector);
+        escrow.resolveGame(gameId, _list(bob), 0);
+
+        vm.prank(governor);
+        escrow.resolveGame(gameId, new address[](0), 0);
+        // 1.5 ETH left in the pot, less the 5% house fee
+        assertEq(escrow.claimable(alice, address(0)), 1.425 ether);
+    }
+
+    // --------------------------------------------------
+    // Team games
+    // --------------------------------------------------
+
+    function test_ResolveTeamsSplitsPotAcrossWinningTeam() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.teamCount = 2;
+        uint256 gameId = _create(alice, config);
+        vm.prank(bob);
+        escrow.joinTeam{value: STAKE}(gameId, 1, new bytes32[](0));
+        vm.prank(carol);
+        escrow.joinTeam{value: STAKE}(gameId, 0, new bytes32[](0));
+
+        vm.startPrank(governor);
+        escrow.startGame(gameId);
+        uint8[] memory losingTeams = new uint8[](1);
+        losingTeams[0] = 1;
+        escrow.resolveTeams(gameId, losingTeams, 0);
+        vm.stopPrank();
+
+        assertEq(escrow.claimable(alice, address(0)), 1.425 ether);
+        assertEq(escrow.claimable(carol, address(0)), 1.425 ether);
+        assertEq(escrow.claimable(bob, address(0)), 0);
+    }
+
+    function test_TeamGameRequiresTeam() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.teamCount = 2;
+        uint256 gameId = _create(alice, config);
+
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.PickTeam.selector);
+        escrow.joinGame{value: STAKE}(gameId);
+    }
+
+    // --------------------------------------------------
+    // Pause and ownership
+    // --------------------------------------------------
+
+    function test_PauseBlocksNewMoneyButNotResolution() public {
+        uint256 gameId = _startedGame(_config());
+        ext.setPaused(true);
+
+        vm.prank(alice);
+        vm.expectRevert(GameEscrowStorage.Paused.selector);
+        escrow.createGame{value: STAKE}(_config());
+
+        _resolve(gameId, bob, 0);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Resolved));
+    }
+
+    function test_OwnershipTransferNeedsAcceptance() public {
+        ext.transferOwnership(alice);
+        assertEq(escrow.owner(), address(this));
+
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.NotPendingOwner.selector);
+        ext.acceptOwnership();
+
+        vm.prank(alice);
+        ext.acceptOwnership();
+        assertEq(escrow.owner(), alice);
+
+        vm.expectRevert(GameEscrowStorage.NotOwner.selector);
+        ext.setPaused(true);
+    }
+
+    // --------------------------------------------------
+    // Metadata
+    // --------------------------------------------------
+
+    function test_MetadataIsStoredAsGiven() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.gameType = "coinflip";
+        config.metadataURI = "ipfs://rules";
+        config.metadata = abi.encode(uint256(3));
+        uint256 gameId = _create(alice, config);
+
+        GameEscrowStorage.GameInfo memory game = ext.getGame(gameId);
+        assertEq(game.gameType, bytes32("coinflip"));
+        assertEq(game.metadataURI, "ipfs://rules");
+        assertEq(game.metadata, abi.encode(uint256(3)));
+    }
+
+    // --------------------------------------------------
+    // Referrals
+    // --------------------------------------------------
+
+    function test_ReferrerEarnsTierOfPlayersHouseFee() public {
+        address frontend = makeAddr("frontend");
+        ext.setReferralTier(frontend, 5000);
+        uint256 gameId = _create(alice, _config());
+        vm.prank(bob);
+        escrow.joinWithReferrer{value: STAKE}(gameId, type(uint8).max, new bytes32[](0), frontend);
+        vm.prank(governor);
+        escrow.startGame(gameId);
+
+        _resolve(gameId, bob, 0);
+
+        // 0.1 ETH house fee, half of bob's 0.05 slice to the frontend
+        assertEq(escrow.claimable(frontend, address(0)), 0.025 ether);
+        assertEq(escrow.referralEarnings(frontend, address(0)), 0.025 ether);
+        assertEq(escrow.accumulatedHouseFees(address(0)), 0.075 ether);
+    }
+
+    function test_SelfReferralReverts() public {
+        uint256 gameId = _create(alice, _config());
+
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.InvalidReferrer.selector);
+        escrow.joinWithReferrer{value: STAKE}(gameId, type(uint8).max, new bytes32[](0), bob);
+    }
+
+    // --------------------------------------------------
+    // Batching and solo games
+    // --------------------------------------------------
+
+    function test_MulticallCreatesAndStartsTokenGame() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.governor = alice;
+        config.token = address(token);
+
+        bytes[] memory calls = new bytes[](2);
+        calls[0] = abi.encodeCall(GameEscrow.createGame, (config));
+        calls[1] = abi.encodeCall(GameEscrow.startGame, (escrow.nextGameId()));
+        vm.prank(alice);
+        bytes[] memory results = escrow.multicall(calls);
+
+        uint256 gameId = abi.decode(results[0], (uint256));
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Started));
+    }
+
+    function test_SoloGameStartsOnCreation() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.maxPlayers = 1;
+        uint256 gameId = _create(alice, config);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Started));
+    }
+
+    // --------------------------------------------------
+    // Relayed joins
+    // --------------------------------------------------
+
+    function test_RelayerSubmitsSignedJoinWithPermit() public {
+        (address dave, uint256 key) = makeAddrAndKey("dave");
+        token.mint(dave, STAKE);
+        GameEscrow.GameConfig memory config = _config();
+        config.token = address(token);
+        uint256 gameId = _create(alice, config);
+
+        GameEscrowExtension.JoinRequest memory request = GameEscrowExtension.JoinRequest({
+            gameId: gameId,
+            player: dave,
+            team: type(uint8).max,
+            referrer: address(0),
+            nonce: 1,
+            deadline: block.timestamp + 1 hours
+        });
+        bytes memory signature = _signJoin(key, request);
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(key, dave, STAKE, request.deadline);
+
+        // carol pays the gas, dave pays the stake
+        vm.prank(carol);
+        ext.joinGameWithSig(request, new bytes32[](0), signature, request.deadline, v, r, s);
+        assertTrue(ext.getGame(gameId).players[1] == dave);
+        assertEq(token.balanceOf(dave), 0);
+
+        vm.expectRevert(GameEscrowStorage.NonceAlreadyUsed.selector);
+        ext.joinGameWithSig(request, new bytes32[](0), signature, 0, 0, 0, 0);
+    }
+
+    function test_CancelledJoinNonceCannotBeRelayed() public {
+        (address dave, uint256 key) = makeAddrAndKey("dave");
+        uint256 gameId = _create(alice, _config());
+        GameEscrowExtension.JoinRequest memory request = GameEscrowExtension.JoinRequest({
+            gameId: gameId,
+            player: dave,
+            team: type(uint8).max,
+            referrer: address(0),
+            nonce: 1,
+            deadline: block.timestamp + 1 hours
+        });
+        bytes memory signature = _signJoin(key, request);
+
+        vm.prank(dave);
+        ext.cancelNonce(1);
+        vm.expectRevert(GameEscrowStorage.NonceAlreadyUsed.selector);
+        ext.joinGameWithSig(request, new bytes32[](0), signature, 0, 0, 0, 0);
+    }
+
+    function _signJoin(uint256 key, GameEscrowExtension.JoinRequest memory request) internal returns (bytes memory) {
+        bytes32 structHash = keccak256(abi.encode(
+            ext.JOIN_TYPEHASH(),
+            request.gameId,
+            request.player,
+            request.team,
+            request.referrer,
+            request.nonce,
+            request.deadline
+        ));
+        return _sign(key, keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash)));
+    }
+
+    function _signPermit(uint256 key, address owner, uint256 value, uint256 deadline)
+        internal
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        bytes32 structHash = keccak256(abi.encode(
+            keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+            owner,
+            address(escrow),
+            value,
+            token.nonces(owner),
+            deadline
+        ));
+        return vm.sign(key, keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash)));
+    }
+}
@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/series.sol";
+
+contract GameSeriesTest is EscrowTest {
+    GameSeries internal seriesBook;
+
+    function setUp() public override {
+        super.setUp();
+        seriesBook = new GameSeries(address(escrow));
+        ext.setHost(address(seriesBook), true);
+    }
+
+    /// @dev Best of 3 between alice and bob, whose first game bob lost.
+    function _series() internal returns (uint256 seriesId) {
+        uint256 gameId = _startedGame(_config());
+        vm.prank(alice);
+        seriesId = seriesBook.createSeries(gameId, 2);
+        _resolve(gameId, bob, 0);
+    }
+
+    function _rematchConfig() internal view returns (GameEscrow.GameConfig memory config) {
+        config = _config();
+        config.whitelist = _list(alice, bob);
+    }
+
+    function test_RematchLinkedByPlayerCountsTowardSeries() public {
+        uint256 seriesId = _series();
+        uint256 rematchId = _create(bob, _rematchConfig());
+
+        vm.prank(carol);
+        vm.expectRevert("Not a player or governor");
+        seriesBook.addGame(seriesId, rematchId);
+
+        vm.prank(bob);
+        seriesBook.addGame(seriesId, rematchId);
+        _join(rematchId, alice);
+        vm.prank(governor);
+        escrow.startGame(rematchId);
+        _resolve(rematchId, bob, 0);
+
+        GameSeries.SeriesInfo memory s = seriesBook.getSeries(seriesId);
+        assertEq(s.gameIds.length, 2);
+        assertEq(s.wins[0], 2);
+        assertEq(s.winner, alice);
+        assertEq(seriesBook.seriesOf(rematchId), seriesId);
+    }
+
+    function test_AddGameRejectsMerkleInvitesAndMissingSeats() public {
+        uint256 seriesId = _series();
+
+        GameEscrow.GameConfig memory config = _rematchConfig();
+        config.whitelistRoot = keccak256(abi.encodePacked(carol));
+        uint256 invitesCarol = _create(alice, config);
+        vm.prank(alice);
+        vm.expectRevert("Players differ");
+        seriesBook.addGame(seriesId, invitesCarol);
+
+        // started with bob's seat empty
+        uint256 aliceAlone = _create(alice, _rematchConfig());
+        vm.prank(governor);
+        escrow.startGame(aliceAlone);
+        vm.prank(governor);
+        vm.expectRevert("Players differ");
+        seriesBook.addGame(seriesId, aliceAlone);
+    }
+
+    function test_RematchOpensAndLinksNextGameInOneCall() public {
+        uint256 seriesId = _series();
+
+        vm.prank(carol);
+        vm.expectRevert("Not a player");
+        seriesBook.rematch{value: STAKE}(seriesId);
+
+        vm.prank(bob);
+        uint256 rematchId = seriesBook.rematch{value: STAKE}(seriesId);
+
+        GameEscrowStorage.GameInfo memory game = ext.getGame(rematchId);
+        assertEq(game.players[0], bob);
+        assertEq(game.governor, governor);
+        assertEq(game.stakeAmount, STAKE);
+        assertEq(game.whitelist.length, 2);
+        assertEq(address(escrow).balance, 3 * STAKE);
+        assertEq(seriesBook.seriesOf(rematchId), seriesId);
+
+        // the next game can't follow until this one finishes
+        vm.prank(alice);
+        vm.expectRevert("Previous game not finished");
+        seriesBook.rematch{value: STAKE}(seriesId);
+
+        // the rematch seats exactly the series players, so alice's join fills the lobby and starts it
+        _join(rematchId, alice);
+        assertEq(uint256(ext.getGame(rematchId).state), uint256(GameEscrowStorage.State.Started));
+        _resolve(rematchId, bob, 0);
+        assertEq(seriesBook.getSeries(seriesId).winner, alice);
+    }
+
+    function test_TokenRematchPullsStakeFromCaller() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.token = address(token);
+        uint256 gameId = _startedGame(config);
+        vm.prank(alice);
+        uint256 seriesId = seriesBook.createSeries(gameId, 2);
+        _resolve(gameId, bob, 0);
+
+        uint256 before = token.balanceOf(alice);
+        vm.startPrank(alice);
+        token.approve(address(seriesBook), STAKE);
+        uint256 rematchId = seriesBook.rematch(seriesId);
+        vm.stopPrank();
+
+        assertEq(before - token.balanceOf(alice), STAKE);
+        assertEq(ext.getGame(rematchId).token, address(token));
+        assertEq(token.allowance(address(seriesBook), address(escrow)), 0);
+    }
+
+    function test_RematchNeedsApprovedHost() public {
+        uint256 seriesId = _series();
+        ext.setHost(address(seriesBook), false);
+
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.NotHost.selector);
+        seriesBook.rematch{value: STAKE}(seriesId);
+    }
+}
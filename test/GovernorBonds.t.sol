@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/bonds.sol";
+
+contract GovernorBondsTest is EscrowTest {
+    uint64 internal constant WINDOW = 3 days;
+
+    GovernorBonds internal bonds;
+    address internal arbiter = makeAddr("arbiter");
+
+    function setUp() public override {
+        super.setUp();
+        bonds = new GovernorBonds(address(escrow), WINDOW);
+        bonds.setArbiter(arbiter);
+
+        vm.deal(governor, 10 ether);
+        vm.prank(governor);
+        bonds.postBond{value: 1 ether}();
+    }
+
+    function test_WithdrawalWaitsForLatestResolutionWindow() public {
+        uint256 gameId = _startedGame(_config());
+        vm.prank(governor);
+        bonds.requestWithdrawal(1 ether);
+
+        // resolved just before the requested withdrawal unlocks
+        vm.warp(block.timestamp + WINDOW - 1);
+        _resolve(gameId, bob, 0);
+        vm.warp(block.timestamp + 1);
+
+        vm.prank(governor);
+        vm.expectRevert("Withdrawal locked");
+        bonds.withdrawBond();
+
+        vm.warp(block.timestamp + WINDOW - 1);
+        uint256 before = governor.balance;
+        vm.prank(governor);
+        bonds.withdrawBond();
+        assertEq(governor.balance - before, 1 ether);
+        assertEq(bonds.getBond(governor).amount, 0);
+    }
+
+    function test_DisputedResolutionSlashedToPlayer() public {
+        uint256 gameId = _startedGame(_config());
+        _resolve(gameId, bob, 0);
+
+        vm.prank(bob);
+        bonds.dispute(gameId);
+        assertEq(bonds.getBond(governor).openDisputes, 1);
+
+        vm.warp(block.timestamp + WINDOW + 1);
+        vm.prank(governor);
+        bonds.requestWithdrawal(1 ether);
+        vm.warp(block.timestamp + WINDOW);
+        vm.prank(governor);
+        vm.expectRevert("Open disputes");
+        bonds.withdrawBond();
+
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = 0.4 ether;
+        vm.prank(arbiter);
+        bonds.slash(gameId, _list(bob), amounts, "Wrong loser");
+
+        assertEq(bonds.claimable(bob, address(0)), 0.4 ether);
+        assertEq(bonds.getBond(governor).openDisputes, 0);
+
+        // the withdrawal request is capped at what is left of the bond
+        uint256 before = governor.balance;
+        vm.prank(governor);
+        bonds.withdrawBond();
+        assertEq(governor.balance - before, 0.6 ether);
+    }
+
+    function test_NoDisputesWithoutArbiter() public {
+        bonds.setArbiter(address(0));
+        uint256 gameId = _startedGame(_config());
+        _resolve(gameId, bob, 0);
+
+        // nobody could rule on it, so it would freeze the bond
+        vm.prank(bob);
+        vm.expectRevert("No arbiter");
+        bonds.dispute(gameId);
+        assertEq(bonds.getBond(governor).openDisputes, 0);
+    }
+
+    function test_GameBondRequirementGatesCreationAndJoins() public {
+        GameEscrow.GameConfig memory config = _config();
+        config.minGovernorBond = 1 ether;
+
+        vm.prank(alice);
+        vm.expectRevert(GameEscrowStorage.GovernorUnbonded.selector);
+        escrow.createGame{value: STAKE}(config);
+
+        ext.setBondRegistry(address(bonds));
+        uint256 gameId = _create(alice, config);
+        assertEq(ext.getGame(gameId).minGovernorBond, 1 ether);
+
+        // unbonding takes the bond below the requirement
+        vm.prank(governor);
+        bonds.requestWithdrawal(0.5 ether);
+        assertEq(bonds.bondOf(governor), 0.5 ether);
+        vm.prank(bob);
+        vm.expectRevert(GameEscrowStorage.GovernorUnbonded.selector);
+        escrow.joinGame{value: STAKE}(gameId);
+
+        vm.prank(governor);
+        bonds.postBond{value: 0.5 ether}();
+        _join(gameId, bob);
+        assertEq(ext.getGame(gameId).activePlayers, 2);
+    }
+}
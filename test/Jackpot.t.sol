@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/jackpot.sol";
+
+contract JackpotTest is EscrowTest {
+    uint256 internal constant PRICE = 0.1 ether;
+
+    Jackpot internal jackpot;
+
+    function setUp() public override {
+        super.setUp();
+        jackpot = new Jackpot(address(escrow), address(0), PRICE, 1 days);
+    }
+
+    function _buy(address player, uint256 count) internal {
+        vm.prank(player);
+        jackpot.buyEntries{value: count * PRICE}(count);
+    }
+
+    /// @dev alice holds 3 of the 4 tickets; the round is closed and its draw block committed.
+    function _closedRound() internal returns (uint64 drawBlock) {
+        _buy(alice, 3);
+        _buy(bob, 1);
+        vm.warp(block.timestamp + 1 days);
+        jackpot.closeRound();
+        drawBlock = jackpot.getRound(1).drawBlock;
+    }
+
+    function test_DrawCreditsWinnerAndHouseFee() public {
+        uint64 drawBlock = _closedRound();
+        assertEq(drawBlock, block.number + jackpot.DRAW_DELAY());
+        assertEq(jackpot.currentRound(), 2);
+
+        vm.expectRevert("Draw block not mined");
+        jackpot.draw(1);
+
+        vm.roll(drawBlock + 1);
+        jackpot.draw(1);
+
+        // 0.4 ETH pot less the 5% house fee, which goes to the escrow's fee recipient
+        Jackpot.Round memory r = jackpot.getRound(1);
+        assertTrue(r.drawn);
+        assertTrue(r.winner == alice || r.winner == bob);
+        assertEq(r.prize, 0.38 ether);
+        assertEq(jackpot.claimable(r.winner, address(0)), 0.38 ether);
+        assertEq(jackpot.claimable(address(this), address(0)), 0.02 ether);
+
+        vm.expectRevert("Round not drawable");
+        jackpot.draw(1);
+    }
+
+    function test_StaleDrawRefundsEntries() public {
+        uint64 drawBlock = _closedRound();
+
+        vm.roll(drawBlock + 300);
+        jackpot.draw(1);
+
+        Jackpot.Round memory r = jackpot.getRound(1);
+        assertFalse(r.drawn);
+        assertTrue(r.refunded);
+        assertEq(r.drawBlock, drawBlock);
+
+        // no second roll
+        vm.expectRevert("Round not drawable");
+        jackpot.draw(1);
+
+        jackpot.collectRefund(1, alice);
+        jackpot.collectRefund(1, bob);
+        assertEq(jackpot.claimable(alice, address(0)), 0.3 ether);
+        assertEq(jackpot.claimable(bob, address(0)), PRICE);
+        assertEq(jackpot.claimable(address(this), address(0)), 0);
+
+        vm.expectRevert("Already collected");
+        jackpot.collectRefund(1, alice);
+        vm.expectRevert("No entries");
+        jackpot.collectRefund(1, carol);
+    }
+
+    function test_EmptyRoundRestartsItsWindow() public {
+        uint256 closedAt = jackpot.getRound(1).endTime;
+        vm.warp(closedAt);
+        jackpot.closeRound();
+
+        assertEq(jackpot.currentRound(), 1);
+        assertEq(jackpot.getRound(1).endTime, closedAt + 1 days);
+
+        vm.expectRevert("Round still open");
+        jackpot.closeRound();
+    }
+}
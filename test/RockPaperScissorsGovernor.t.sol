@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/rps.sol";
+
+contract RockPaperScissorsGovernorTest is EscrowTest {
+    RockPaperScissorsGovernor internal rps;
+
+    function setUp() public override {
+        super.setUp();
+        rps = new RockPaperScissorsGovernor(address(escrow), 1 hours, 1 hours);
+    }
+
+    /// @dev alice creates, bob's join fills the lobby and starts the round.
+    function _round() internal returns (uint256 gameId) {
+        GameEscrow.GameConfig memory config = _config();
+        config.governor = address(rps);
+        config.maxPlayers = 2;
+        gameId = _create(alice, config);
+        _join(gameId, bob);
+    }
+
+    function _play(uint256 gameId, address player, RockPaperScissorsGovernor.Move move) internal {
+        bytes32 commitment = rps.moveHash(gameId, player, move, bytes32("salt"));
+        vm.prank(player);
+        rps.commit(gameId, commitment);
+    }
+
+    function _reveal(uint256 gameId, address player, RockPaperScissorsGovernor.Move move) internal {
+        vm.prank(player);
+        rps.reveal(gameId, move, bytes32("salt"));
+    }
+
+    function test_RevealedMovesDecideTheGame() public {
+        uint256 gameId = _round();
+        _play(gameId, alice, RockPaperScissorsGovernor.Move.Rock);
+        _play(gameId, bob, RockPaperScissorsGovernor.Move.Scissors);
+
+        (bool ready, ) = rps.computeLosers(gameId);
+        assertFalse(ready);
+
+        _reveal(gameId, alice, RockPaperScissorsGovernor.Move.Rock);
+        _reveal(gameId, bob, RockPaperScissorsGovernor.Move.Scissors);
+        escrow.resolveByGovernor(gameId);
+
+        // 2 ETH pot less the 5% house fee
+        assertEq(escrow.claimable(alice, address(0)), 1.9 ether);
+        assertEq(escrow.claimable(bob, address(0)), 0);
+    }
+
+    function test_WinnerWhoConcededLeavesPotToOtherPlayer() public {
+        uint256 gameId = _round();
+        _play(gameId, alice, RockPaperScissorsGovernor.Move.Rock);
+        _play(gameId, bob, RockPaperScissorsGovernor.Move.Scissors);
+        _reveal(gameId, alice, RockPaperScissorsGovernor.Move.Rock);
+        vm.prank(alice);
+        ext.concede(gameId);
+        _reveal(gameId, bob, RockPaperScissorsGovernor.Move.Scissors);
+
+        (bool ready, address[] memory losers) = rps.computeLosers(gameId);
+        assertTrue(ready);
+        assertEq(losers.length, 0);
+
+        escrow.resolveByGovernor(gameId);
+        assertEq(escrow.claimable(bob, address(0)), 1.9 ether);
+        assertEq(escrow.claimable(alice, address(0)), 0);
+    }
+
+    function test_BothConcededCancelsWithRefunds() public {
+        uint256 gameId = _round();
+        vm.prank(alice);
+        ext.concede(gameId);
+        vm.prank(bob);
+        ext.concede(gameId);
+
+        // no winner to pay, so the outcome never becomes ready
+        vm.warp(block.timestamp + 1 hours + 1);
+        (bool ready, ) = rps.computeLosers(gameId);
+        assertFalse(ready);
+        vm.expectRevert(GameEscrowStorage.OutcomeNotReady.selector);
+        escrow.resolveByGovernor(gameId);
+
+        rps.cancelConceded(gameId);
+        assertEq(uint256(ext.getGame(gameId).state), uint256(GameEscrowStorage.State.Cancelled));
+        assertEq(escrow.claimable(alice, address(0)), STAKE);
+        assertEq(escrow.claimable(bob, address(0)), STAKE);
+        assertEq(escrow.claimable(address(rps), address(0)), 0);
+    }
+
+    function test_CancelConcededNeedsEveryPlayer() public {
+        uint256 gameId = _round();
+        vm.prank(alice);
+        ext.concede(gameId);
+
+        vm.expectRevert("Not every player conceded");
+        rps.cancelConceded(gameId);
+    }
+
+    function test_NoShowLosesAfterCommitWindow() public {
+        uint256 gameId = _round();
+        _play(gameId, bob, RockPaperScissorsGovernor.Move.Paper);
+
+        vm.warp(block.timestamp + 1 hours + 1);
+        (bool ready, address[] memory losers) = rps.computeLosers(gameId);
+        assertTrue(ready);
+        assertEq(losers.length, 1);
+        assertEq(losers[0], alice);
+    }
+}
@@ -0,0 +1,128 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/sidebets.sol";
+import "../contracts/rps.sol";
+
+contract SideBetsTest is EscrowTest {
+    SideBets internal sideBets;
+    address internal fan1 = makeAddr("fan1");
+    address internal fan2 = makeAddr("fan2");
+    address internal fan3 = makeAddr("fan3");
+
+    function setUp() public override {
+        super.setUp();
+        sideBets = new SideBets(address(escrow));
+        vm.deal(fan1, 10 ether);
+        vm.deal(fan2, 10 ether);
+        vm.deal(fan3, 10 ether);
+    }
+
+    function _bet(address bettor, uint256 gameId, address player, uint256 amount) internal {
+        vm.prank(bettor);
+        sideBets.placeBet{value: amount}(gameId, player, amount);
+    }
+
+    function test_WinningBetsSharePoolAndLastCollectTakesDust() public {
+        uint256 gameId = _create(alice, _config());
+        _join(gameId, bob);
+        _bet(fan1, gameId, alice, 1 ether);
+        _bet(fan2, gameId, alice, 2 ether);
+        _bet(fan3, gameId, bob, 1);
+        vm.prank(governor);
+        escrow.startGame(gameId);
+        _resolve(gameId, bob, 0);
+
+        sideBets.collect(gameId, fan1);
+        sideBets.collect(gameId, fan3);
+        sideBets.collect(gameId, fan2);
+
+        assertEq(sideBets.claimable(fan1, address(0)), 1 ether);
+        assertEq(sideBets.claimable(fan2, address(0)), 2 ether + 1);
+        assertEq(sideBets.claimable(fan3, address(0)), 0);
+    }
+
+    function test_ConcessionClosesBetting() public {
+        uint256 gameId = _startedGame(_config());
+        _bet(fan1, gameId, alice, 1 ether);
+
+        // bob conceding leaves alice the only possible winner
+        vm.prank(bob);
+        ext.concede(gameId);
+        vm.prank(fan2);
+        vm.expectRevert("Outcome known");
+        sideBets.placeBet{value: 1 ether}(gameId, alice, 1 ether);
+
+        vm.prank(governor);
+        escrow.resolveGame(gameId, new address[](0), 0);
+        vm.prank(fan2);
+        vm.expectRevert("Betting closed");
+        sideBets.placeBet{value: 1 ether}(gameId, alice, 1 ether);
+
+        sideBets.collect(gameId, fan1);
+        assertEq(sideBets.claimable(fan1, address(0)), 1 ether);
+    }
+
+    function test_ReadyGovernorOutcomeClosesBetting() public {
+        RockPaperScissorsGovernor rps = new RockPaperScissorsGovernor(address(escrow), 1 hours, 1 hours);
+        GameEscrow.GameConfig memory config = _config();
+        config.governor = address(rps);
+        config.maxPlayers = 2;
+        uint256 gameId = _create(alice, config);
+        _join(gameId, bob);
+        _bet(fan1, gameId, bob, 1 ether);
+
+        // alice never commits, so bob wins once the commit window closes
+        bytes32 commitment = rps.moveHash(gameId, bob, RockPaperScissorsGovernor.Move.Paper, bytes32("salt"));
+        vm.prank(bob);
+        rps.commit(gameId, commitment);
+        vm.warp(block.timestamp + 1 hours + 1);
+
+        vm.prank(fan2);
+        vm.expectRevert("Outcome known");
+        sideBets.placeBet{value: 1 ether}(gameId, bob, 1 ether);
+    }
+
+    function test_PlayersAndGovernorsCantBet() public {
+        uint256 gameId = _create(alice, _config());
+        _join(gameId, bob);
+        vm.deal(governor, 1 ether);
+
+        vm.prank(bob);
+        vm.expectRevert("Player can't bet");
+        sideBets.placeBet{value: 1 ether}(gameId, alice, 1 ether);
+
+        vm.prank(governor);
+        vm.expectRevert("Governor can't bet");
+        sideBets.placeBet{value: 1 ether}(gameId, alice, 1 ether);
+    }
+
+    function test_BettorWhoJoinsLaterWinsNothing() public {
+        uint256 gameId = _create(alice, _config());
+        _bet(carol, gameId, alice, 1 ether);
+        _bet(fan1, gameId, alice, 1 ether);
+        _join(gameId, carol);
+        vm.prank(governor);
+        escrow.startGame(gameId);
+        _resolve(gameId, carol, 0);
+
+        sideBets.collect(gameId, fan1);
+        sideBets.collect(gameId, carol);
+
+        // fan1 collected first, so carol's share falls to the escrow's fee recipient
+        assertEq(sideBets.claimable(fan1, address(0)), 1 ether);
+        assertEq(sideBets.claimable(carol, address(0)), 0);
+        assertEq(sideBets.claimable(address(this), address(0)), 1 ether);
+    }
+
+    function test_CancelledGameRefundsBets() public {
+        uint256 gameId = _create(alice, _config());
+        _bet(fan1, gameId, alice, 1 ether);
+        vm.prank(governor);
+        ext.cancelGame(gameId);
+
+        sideBets.collect(gameId, fan1);
+        assertEq(sideBets.claimable(fan1, address(0)), 1 ether);
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./utils/EscrowTest.sol";
+import "../contracts/tournament.sol";
+
+contract TournamentEscrowTest is EscrowTest {
+    TournamentEscrow internal tournaments;
+    address internal dave = makeAddr("dave");
+
+    function setUp() public override {
+        super.setUp();
+        tournaments = new TournamentEscrow(address(escrow));
+        ext.setHost(address(tournaments), true);
+        vm.deal(dave, 100 ether);
+    }
+
+    function _fourPlayerConfig() internal view returns (TournamentEscrow.TournamentConfig memory) {
+        return TournamentEscrow.TournamentConfig({
+            governor: governor,
+            token: address(0),
+            entryFee: STAKE,
+            size: 4,
+            resolutionTimeout: 0,
+            governorFeePercentage: 5,
+            runnerUpBps: 2500
+        });
+    }
+
+    function _fourPlayerTournament() internal returns (uint256 tournamentId) {
+        vm.prank(alice);
+        tournamentId = tournaments.createTournament{value: STAKE}(_fourPlayerConfig());
+        address[3] memory rest = [bob, carol, dave];
+        for (uint256 i; i < rest.length; i++) {
+            vm.prank(rest[i]);
+            tournaments.enter{value: STAKE}(tournamentId);
+        }
+    }
+
+    function test_BracketAdvancesAndFinalPaysOut() public {
+        uint256 tournamentId = _fourPlayerTournament();
+        assertEq(uint256(tournaments.getTournament(tournamentId).state), uint256(TournamentEscrow.State.Started));
+
+        // each match is a started, stakeless escrow game the tournament governs
+        uint256[] memory semis = tournaments.getTournament(tournamentId).matchGames;
+        assertEq(semis.length, 2);
+        GameEscrowStorage.GameInfo memory semi = ext.getGame(semis[1]);
+        assertEq(semi.governor, address(tournaments));
+        assertEq(uint256(semi.state), uint256(GameEscrowStorage.State.Started));
+        assertEq(semi.stakeAmount, 0);
+        assertEq(semi.players[0], carol);
+        assertEq(semi.players[1], dave);
+
+        vm.startPrank(governor);
+        tournaments.reportMatch(tournamentId, 0, alice);
+        tournaments.reportMatch(tournamentId, 1, dave);
+        assertEq(tournaments.getTournament(tournamentId).round, 1);
+        uint256 finalGame = tournaments.getTournament(tournamentId).matchGames[0];
+        tournaments.reportMatch(tournamentId, 0, dave);
+        vm.stopPrank();
+
+        semi = ext.getGame(semis[1]);
+        assertEq(uint256(semi.state), uint256(GameEscrowStorage.State.Resolved));
+        assertEq(semi.losers[0], carol);
+        assertEq(ext.getGame(finalGame).losers[0], alice);
+
+        // 4 ETH pot less 5% house and 5% governor: 3.6 ETH, a quarter to the runner-up
+        TournamentEscrow.TournamentInfo memory t = tournaments.getTournament(tournamentId);
+        assertEq(t.champion, dave);
+        assertEq(t.runnerUp, alice);
+        assertEq(tournaments.claimable(dave, address(0)), 2.7 ether);
+        assertEq(tournaments.claimable(alice, address(0)), 0.9 ether);
+        assertEq(tournaments.claimable(governor, address(0)), 0.2 ether);
+
+        uint256 before = address(this).balance;
+        tournaments.withdraw(address(0));
+        assertEq(address(this).balance - before, 0.2 ether);
+    }
+
+    function test_OnlyGovernorReportsMatchPlayers() public {
+        uint256 tournamentId = _fourPlayerTournament();
+
+        vm.prank(alice);
+        vm.expectRevert("Not governor");
+        tournaments.reportMatch(tournamentId, 0, alice);
+
+        vm.prank(governor);
+        vm.expectRevert("Winner not in match");
+        tournaments.reportMatch(tournamentId, 0, carol);
+    }
+
+    function test_ConcededMatchIsLost() public {
+        uint256 tournamentId = _fourPlayerTournament();
+        uint256 gameId = tournaments.getTournament(tournamentId).matchGames[0];
+
+        vm.prank(bob);
+        ext.concede(gameId);
+
+        vm.prank(governor);
+        vm.expectRevert("Winner conceded");
+        tournaments.reportMatch(tournamentId, 0, bob);
+
+        vm.prank(governor);
+        tournaments.reportMatch(tournamentId, 0, alice);
+        GameEscrowStorage.GameInfo memory game = ext.getGame(gameId);
+        assertEq(uint256(game.state), uint256(GameEscrowStorage.State.Resolved));
+        assertEq(game.losers.length, 1);
+        assertEq(tournaments.getTournament(tournamentId).winners[0], alice);
+    }
+
+    function test_DoubleConcedeAdvancesGovernorPick() public {
+        uint256 tournamentId = _fourPlayerTournament();
+        uint256 gameId = tournaments.getTournament(tournamentId).matchGames[0];
+
+        vm.prank(alice);
+        ext.concede(gameId);
+        vm.prank(bob);
+        ext.concede(gameId);
+
+        vm.prank(governor);
+        tournaments.reportMatch(tournamentId, 0, bob);
+        GameEscrowStorage.GameInfo memory game = ext.getGame(gameId);
+        assertEq(uint256(game.state), uint256(GameEscrowStorage.State.Resolved));
+        assertEq(game.losers.length, 2);
+        assertEq(tournaments.getTournament(tournamentId).winners[0], bob);
+    }
+
+    function test_PausedEscrowStillAdvancesBracket() public {
+        uint256 tournamentId = _fourPlayerTournament();
+        ext.setPaused(true);
+
+        vm.startPrank(governor);
+        tournaments.reportMatch(tournamentId, 0, alice);
+        tournaments.reportMatch(tournamentId, 1, dave);
+        assertEq(tournaments.getTournament(tournamentId).round, 1);
+        tournaments.reportMatch(tournamentId, 0, alice);
+        vm.stopPrank();
+
+        assertEq(uint256(tournaments.getTournament(tournamentId).state), uint256(TournamentEscrow.State.Resolved));
+        assertEq(tournaments.getTournament(tournamentId).champion, alice);
+    }
+
+    function test_CancelCallsOffUnreportedMatches() public {
+        uint256 tournamentId = _fourPlayerTournament();
+        uint256[] memory matchGames = tournaments.getTournament(tournamentId).matchGames;
+
+        vm.startPrank(governor);
+        tournaments.reportMatch(tournamentId, 0, alice);
+        tournaments.cancelTournament(tournamentId);
+        vm.stopPrank();
+
+        assertEq(uint256(ext.getGame(matchGames[0]).state), uint256(GameEscrowStorage.State.Resolved));
+        assertEq(uint256(ext.getGame(matchGames[1]).state), uint256(GameEscrowStorage.State.Cancelled));
+        assertEq(tournaments.claimable(dave, address(0)), STAKE);
+    }
+
+    function test_BracketNeedsApprovedHost() public {
+        ext.setHost(address(tournaments), false);
+        vm.prank(alice);
+        uint256 tournamentId = tournaments.createTournament{value: STAKE}(_fourPlayerConfig());
+        vm.prank(bob);
+        tournaments.enter{value: STAKE}(tournamentId);
+        vm.prank(carol);
+        tournaments.enter{value: STAKE}(tournamentId);
+
+        // the last entry starts the bracket, which opens the match games
+        vm.prank(dave);
+        vm.expectRevert(GameEscrowStorage.NotHost.selector);
+        tournaments.enter{value: STAKE}(tournamentId);
+    }
+
+    receive() external payable {}
+}
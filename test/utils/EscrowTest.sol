@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../../contracts/contract.sol";
+import "../../contracts/extension.sol";
+import "./MockToken.sol";
+
+/// @notice Deploys GameEscrow with its extension and a 5% house fee, funds three players and wraps the common calls.
+///         The test contract owns the escrow.
+abstract contract EscrowTest is Test {
+    uint256 internal constant STAKE = 1 ether;
+
+    GameEscrow internal escrow;
+    GameEscrowExtension internal ext;   // the escrow, called through the functions its extension serves
+    MockToken internal token;
+
+    address internal governor = makeAddr("governor");
+    address internal alice = makeAddr("alice");
+    address internal bob = makeAddr("bob");
+    address internal carol = makeAddr("carol");
+
+    function setUp() public virtual {
+        escrow = new GameEscrow(address(new GameEscrowExtension()));
+        ext = GameEscrowExtension(address(escrow));
+        ext.setHouseFee(5);
+
+        token = new MockToken();
+        _fund(alice);
+        _fund(bob);
+        _fund(carol);
+    }
+
+    /// @dev 100 ETH and 100 tokens, with the escrow approved to pull the tokens.
+    function _fund(address player) internal {
+        vm.deal(player, 100 ether);
+        token.mint(player, 100 ether);
+        vm.prank(player);
+        token.approve(address(escrow), type(uint256).max);
+    }
+
+    /// @dev Public ETH game with `STAKE` per player, no player limits and a 10% governor fee cap.
+    function _config() internal view returns (GameEscrow.GameConfig memory config) {
+        config.governor = governor;
+        config.stakeAmount = STAKE;
+        config.maxGovernorFeePercentage = 10;
+    }
+
+    function _create(address creator, GameEscrow.GameConfig memory config) internal returns (uint256 gameId) {
+        vm.prank(creator);
+        gameId = escrow.createGame{value: config.token == address(0) ? config.stakeAmount : 0}(config);
+    }
+
+    function _join(uint256 gameId, address player) internal {
+        GameEscrowStorage.GameInfo memory game = ext.getGame(gameId);
+        vm.prank(player);
+        escrow.joinGame{value: game.token == address(0) ? game.stakeAmount : 0}(gameId);
+    }
+
+    /// @dev alice creates, bob joins and the governor starts.
+    function _startedGame(GameEscrow.GameConfig memory config) internal returns (uint256 gameId) {
+        gameId = _create(alice, config);
+        _join(gameId, bob);
+        vm.prank(governor);
+        escrow.startGame(gameId);
+    }
+
+    function _resolve(uint256 gameId, address loser, uint256 governorFeePercentage) internal {
+        address[] memory losers = new address[](1);
+        losers[0] = loser;
+        vm.prank(governor);
+        escrow.resolveGame(gameId, losers, governorFeePercentage);
+    }
+
+    function _list(address a) internal pure returns (address[] memory list) {
+        list = new address[](1);
+        list[0] = a;
+    }
+
+    function _list(address a, address b) internal pure returns (address[] memory list) {
+        list = new address[](2);
+        list[0] = a;
+        list[1] = b;
+    }
+
+    function _sign(uint256 key, bytes32 digest) internal returns (bytes memory) {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, digest);
+        return abi.encodePacked(r, s, v);
+    }
+
+    /// @dev GameEscrow's EIP-712 domain, which signed resolutions and relayed joins share.
+    function _domainSeparator() internal view returns (bytes32) {
+        return keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256("GameEscrow"),
+            keccak256("1"),
+            block.chainid,
+            address(escrow)
+        ));
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @notice Mintable ERC-20 with EIP-2612 permits for token-stake tests.
+contract MockToken is ERC20Permit {
+    constructor() ERC20("Mock Token", "MOCK") ERC20Permit("Mock Token") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}